@@ -0,0 +1,183 @@
+#!/usr/bin/env node
+// Minimal CORS proxy for local use: GET http://localhost:8787/?url=<encoded url>
+// Usage: npm run proxy [-- --port 8787] [--host 127.0.0.1] [--origin http://localhost:8080] [--allow-private]
+//
+// Only reachable from this machine and only usable by the app's own origin (comma-separate several),
+// and it won't fetch loopback or private-network addresses unless --allow-private is given, so
+// other sites open in the browser can't use it to read from the local network.
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import dns from 'node:dns';
+import { pathToFileURL } from 'node:url';
+
+const option = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index > -1 ? process.argv[index + 1] : fallback;
+};
+
+const PORT = Number(option('port', process.env.PORT)) || 8787;
+const HOST = option('host', process.env.PROXY_HOST || '127.0.0.1');
+const ALLOWED_ORIGINS = new Set(
+  option('origin', process.env.PROXY_ORIGIN || 'http://localhost:8080,http://127.0.0.1:8080')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean)
+);
+const ALLOW_PRIVATE = process.argv.includes('--allow-private') || process.env.PROXY_ALLOW_PRIVATE === '1';
+const TIMEOUT = 20000;
+const MAX_BODY_SIZE = 16 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const FORWARDED_REQUEST_HEADERS = ['accept', 'accept-language', 'if-none-match', 'if-modified-since'];
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'etag', 'last-modified', 'cache-control', 'expires'];
+
+// Loopback, private, link-local, shared, benchmarking, multicast and reserved ranges; BlockList
+// matches IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) against the IPv4 ranges
+const PRIVATE_RANGES = new net.BlockList();
+[['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]]
+  .forEach(([address, prefix]) => PRIVATE_RANGES.addSubnet(address, prefix, 'ipv4'));
+[['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]]
+  .forEach(([address, prefix]) => PRIVATE_RANGES.addSubnet(address, prefix, 'ipv6'));
+
+const isBlocked = (blockList, address) => blockList.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+const privateAddressError = (hostname) =>
+  Object.assign(new Error(`${hostname} is a local or private address (start with --allow-private to permit it)`), { status: 403 });
+
+// Builds fetchPublic around a set of refused addresses (none with --allow-private); tests pass their own
+// ranges and body limit so they can run against servers on this machine
+export const createFetchPublic = ({
+  blockList = ALLOW_PRIVATE ? new net.BlockList() : PRIVATE_RANGES,
+  maxBodySize = MAX_BODY_SIZE
+} = {}) => {
+  // Resolves names for the agents below and refuses private addresses, so the address that was checked is
+  // the one connected to; a second lookup could answer differently (DNS rebinding)
+  const publicLookup = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error);
+      if (addresses.some(({ address }) => isBlocked(blockList, address))) {
+        return callback(privateAddressError(hostname));
+      }
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+
+  const agents = {
+    'http:': new http.Agent({ keepAlive: true, lookup: publicLookup }),
+    'https:': new https.Agent({ keepAlive: true, lookup: publicLookup })
+  };
+
+  // IP literals are connected to without a lookup, so they're checked here
+  const assertPublicLiteral = (url) => {
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(hostname) && isBlocked(blockList, hostname)) throw privateAddressError(url.hostname);
+  };
+
+  // Bodies are buffered to be sent on in one piece, so oversized ones are cut off rather than held in memory
+  const request = (url, headers, signal) => new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.get(url, { headers, signal, agent: agents[url.protocol] }, (res) => {
+      const chunks = [];
+      let size = 0;
+      res.on('data', chunk => {
+        size += chunk.length;
+        if (size > maxBodySize) {
+          req.destroy(new Error(`Response is larger than ${maxBodySize / 1024 / 1024} MB`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      res.on('end', () => resolve({ status: res.statusCode, headers: res.headers, body: Buffer.concat(chunks) }));
+      res.on('error', reject);
+    });
+    req.on('error', reject);
+  });
+
+  // Every hop goes through the checking agents, since a public URL can redirect into the local network
+  return async (url, headers) => {
+    const signal = AbortSignal.timeout(TIMEOUT);
+    for (let hops = 0; ; hops++) {
+      assertPublicLiteral(url);
+      const response = await request(url, headers, signal);
+      const location = response.headers.location;
+      if (response.status < 300 || response.status >= 400 || response.status === 304 || !location) return response;
+      if (hops >= MAX_REDIRECTS) throw new Error('Too many redirects');
+
+      url = new URL(location, url);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error('Unsupported redirect');
+    }
+  };
+};
+
+const corsHeaders = (origin) => ({
+  ...(origin ? { 'Access-Control-Allow-Origin': origin } : {}),
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': FORWARDED_REQUEST_HEADERS.join(', '),
+  'Access-Control-Expose-Headers': FORWARDED_RESPONSE_HEADERS.join(', '),
+  Vary: 'Origin'
+});
+
+export const createProxyServer = ({
+  allowedOrigins = ALLOWED_ORIGINS,
+  fetchPublic = createFetchPublic()
+} = {}) => http.createServer(async (req, res) => {
+  // Requests without an Origin (curl, the address bar) aren't cross-origin and are let through
+  const origin = req.headers.origin;
+  if (origin && !allowedOrigins.has(origin)) {
+    res.writeHead(403, { 'Content-Type': 'text/plain', Vary: 'Origin' });
+    res.end(`Origin ${origin} is not allowed (start with --origin ${origin} to permit it)`);
+    console.error(`403 origin ${origin}`);
+    return;
+  }
+  const cors = corsHeaders(origin);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors);
+    res.end();
+    return;
+  }
+
+  const target = new URL(req.url, `http://localhost:${PORT}`).searchParams.get('url');
+  let targetUrl;
+  try {
+    targetUrl = new URL(target);
+    if (targetUrl.protocol !== 'http:' && targetUrl.protocol !== 'https:') throw new Error('Unsupported protocol');
+  } catch (error) {
+    res.writeHead(400, { ...cors, 'Content-Type': 'text/plain' });
+    res.end('Expected ?url=<http(s) URL>');
+    return;
+  }
+
+  const headers = { 'User-Agent': 'ReadLater CORS proxy' };
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    if (req.headers[name]) headers[name] = req.headers[name];
+  }
+
+  try {
+    const upstream = await fetchPublic(targetUrl, headers);
+    const responseHeaders = { ...cors };
+    for (const name of FORWARDED_RESPONSE_HEADERS) {
+      const value = upstream.headers[name];
+      if (value) responseHeaders[name] = value;
+    }
+
+    res.writeHead(upstream.status, responseHeaders);
+    res.end(upstream.body);
+    console.log(`${upstream.status} ${targetUrl.href}`);
+  } catch (error) {
+    const status = error.status || 502;
+    res.writeHead(status, { ...cors, 'Content-Type': 'text/plain' });
+    res.end(status === 502 ? `Upstream request failed: ${error.message}` : error.message);
+    console.error(`${status} ${targetUrl.href}: ${error.message}`);
+  }
+});
+
+// Only listens when run directly, so the tests can import the pieces above
+if (import.meta.url === pathToFileURL(process.argv[1] || '').href) {
+  createProxyServer().listen(PORT, HOST, () => {
+    console.log(`CORS proxy listening on http://${HOST.includes(':') ? `[${HOST}]` : HOST}:${PORT}/?url={url}`);
+    console.log(`Allowed origins: ${[...ALLOWED_ORIGINS].join(', ')}${ALLOW_PRIVATE ? ' (private addresses allowed)' : ''}`);
+  });
+}
@@ -0,0 +1,103 @@
+// Run with: npm run test:proxy
+// The upstream servers listen on 127.0.0.2, which is left out of the test's blocked ranges, so redirects
+// from it into 127.0.0.1 and localhost show whether every hop is checked.
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import net from 'node:net';
+import { createFetchPublic, createProxyServer } from './cors-proxy.mjs';
+
+const listen = (server, host) => new Promise(resolve => server.listen(0, host, () => resolve(server.address().port)));
+
+const close = (server) => new Promise(resolve => {
+  server.closeAllConnections();
+  server.close(resolve);
+});
+
+const blockList = new net.BlockList();
+blockList.addAddress('127.0.0.1', 'ipv4');
+blockList.addAddress('::1', 'ipv6');
+
+let secretRequests = 0;
+const secret = http.createServer((req, res) => {
+  secretRequests++;
+  res.end('secret');
+});
+
+let upstreamUrl;
+const upstream = http.createServer((req, res) => {
+  const target = new URL(req.url, upstreamUrl).searchParams.get('to');
+  if (target) {
+    res.writeHead(302, { Location: target });
+    res.end();
+  } else if (req.url === '/large') {
+    res.end(Buffer.alloc(64 * 1024));
+  } else {
+    res.end('public');
+  }
+});
+
+let proxyUrl;
+const proxy = createProxyServer({ allowedOrigins: new Set(['http://localhost:8080']) });
+
+let secretPort;
+before(async () => {
+  secretPort = await listen(secret, '127.0.0.1');
+  upstreamUrl = `http://127.0.0.2:${await listen(upstream, '127.0.0.2')}`;
+  proxyUrl = `http://127.0.0.2:${await listen(proxy, '127.0.0.2')}`;
+});
+
+after(() => Promise.all([secret, upstream, proxy].map(close)));
+
+describe('fetchPublic', () => {
+  const fetchPublic = createFetchPublic({ blockList, maxBodySize: 16 * 1024 });
+  const redirectTo = (target) => new URL(`/?to=${encodeURIComponent(target)}`, upstreamUrl);
+
+  it('fetches addresses outside the blocked ranges and follows redirects between them', async () => {
+    const response = await fetchPublic(redirectTo(`${upstreamUrl}/page`), {});
+    assert.equal(response.status, 200);
+    assert.equal(response.body.toString(), 'public');
+  });
+
+  it('refuses a redirect to a blocked IP literal before connecting', async () => {
+    await assert.rejects(fetchPublic(redirectTo(`http://127.0.0.1:${secretPort}/`), {}), { status: 403 });
+    assert.equal(secretRequests, 0);
+  });
+
+  it('refuses a redirect to a name that resolves to a blocked address', async () => {
+    await assert.rejects(fetchPublic(redirectTo(`http://localhost:${secretPort}/`), {}), { status: 403 });
+    assert.equal(secretRequests, 0);
+  });
+
+  it('refuses redirects to other protocols', async () => {
+    await assert.rejects(fetchPublic(redirectTo('file:///etc/passwd'), {}), /Unsupported redirect/);
+  });
+
+  it('aborts bodies over the size limit', async () => {
+    await assert.rejects(fetchPublic(new URL('/large', upstreamUrl), {}), /larger than/);
+  });
+});
+
+describe('proxy server', () => {
+  const get = (target, origin) => fetch(`${proxyUrl}/?url=${encodeURIComponent(target)}`, {
+    headers: origin ? { Origin: origin } : {}
+  });
+
+  it('rejects origins that are not allowed', async () => {
+    const response = await get(`${upstreamUrl}/`, 'https://evil.example');
+    assert.equal(response.status, 403);
+    assert.equal(response.headers.get('access-control-allow-origin'), null);
+  });
+
+  it('refuses private addresses by default, whatever the origin', async () => {
+    const response = await get(`http://127.0.0.1:${secretPort}/`, 'http://localhost:8080');
+    assert.equal(response.status, 403);
+    assert.equal(response.headers.get('access-control-allow-origin'), 'http://localhost:8080');
+    assert.equal(secretRequests, 0);
+  });
+
+  it('rejects URLs that are not http(s)', async () => {
+    const response = await get('file:///etc/passwd');
+    assert.equal(response.status, 400);
+  });
+});
@@ -94,7 +94,7 @@ export const AISummarizer: React.FC<AISummarizerProps> = ({ article, onSaveToKno
       const selectedPromptObj = allPrompts.find(p => p.id === selectedPrompt);
       
       const generatedSummary = await AISummarizerService.summarizeText({
-        content: article.content,
+        content: article.fullContent || article.content,
         apiKey,
         model: selectedModel,
         prompt: selectedPromptObj?.content
@@ -275,7 +275,7 @@ export const AISummarizer: React.FC<AISummarizerProps> = ({ article, onSaveToKno
                 <p className="text-sm text-muted-foreground">by {article.author}</p>
               )}
               <div className="max-h-40 overflow-y-auto text-sm bg-muted p-3 rounded">
-                {article.content.substring(0, 500)}...
+                {(article.fullContent || article.content).substring(0, 500)}...
               </div>
               <Button
                 onClick={handleSummarize}
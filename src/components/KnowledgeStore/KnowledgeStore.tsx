@@ -1,49 +1,161 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Search, Filter, Download, FileText, Calendar, User, Send, Sparkles } from 'lucide-react';
-import { storageService, type Article } from '@/services/storageService';
+import { Search, Filter, Download, FileText, Calendar, User, Send, Sparkles, Star, Camera } from 'lucide-react';
+import { storageService, type Article, type ArticleCursor, type ArticleOverview } from '@/services/storageService';
 import { toast } from '@/hooks/use-toast';
+import { useVirtualList } from '@/hooks/useVirtualList';
+import { useArchivedImages } from '@/hooks/useArchivedImages';
+import { ImageArchive } from '@/services/imageArchive';
+import { ArticleContent } from '@/services/articleContent';
+import { formatBytes } from '@/lib/utils';
+import { SnapshotDialog } from './SnapshotDialog';
 
 interface KnowledgeStoreProps {
   onSendToEditor: (article: Article) => void;
   onSendToSummarizer: (article: Article) => void;
 }
 
+const PAGE_SIZE = 50;
+const SEARCH_DELAY = 250; // ms after the last keystroke before the store is searched
+
+const createSearch = (searchQuery: string) => {
+  const query = searchQuery.toLowerCase();
+  return (article: Article) => article.title.toLowerCase().includes(query) ||
+                               article.content.toLowerCase().includes(query) ||
+                               Boolean(article.fullContent?.toLowerCase().includes(query));
+};
+
+const createFilter = (searchQuery: string, selectedTags: string[], starredOnly: boolean) => {
+  const matchesSearch = createSearch(searchQuery);
+  return (article: Article) => {
+    const matchesTags = selectedTags.length === 0 || 
+                       selectedTags.some(tag => article.tags?.includes(tag));
+    const matchesStarred = !starredOnly || Boolean(article.starredAt);
+    return matchesSearch(article) && matchesTags && matchesStarred;
+  };
+};
+
 export const KnowledgeStore: React.FC<KnowledgeStoreProps> = ({ 
   onSendToEditor, 
   onSendToSummarizer 
 }) => {
-  const [articles, setArticles] = useState<Article[]>([]);
+  // Totals and tags come from index keys; matching articles are paged in as the list scrolls
+  const [overview, setOverview] = useState<ArticleOverview>({ total: 0, tags: [] });
+  const [filteredArticles, setFilteredArticles] = useState<Article[]>([]);
+  const [filteredCount, setFilteredCount] = useState(0);
+  const [cursor, setCursor] = useState<ArticleCursor | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [starredOnly, setStarredOnly] = useState(false);
   const [selectedArticle, setSelectedArticle] = useState<Article | null>(null);
+  const [snapshotArticle, setSnapshotArticle] = useState<Article | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const filterRef = useRef<(article: Article) => boolean>(() => true);
+  const listRequestRef = useRef(0);
+  const isLoadingMoreRef = useRef(false);
+  const tagsKey = selectedTags.join('\n');
+  // Feed articles keep the publisher's HTML, so it is sanitized before archived images are swapped in
+  const detailContent = selectedArticle ? selectedArticle.fullContent || selectedArticle.content : '';
+  const sanitizedDetail = useMemo(
+    () => detailContent ? ArticleContent.sanitize(detailContent, selectedArticle?.url) : '',
+    [detailContent, selectedArticle?.url]
+  );
+  const detailHtml = useArchivedImages(sanitizedDetail);
 
   useEffect(() => {
-    loadArticles();
+    loadOverview();
   }, []);
 
-  const loadArticles = async () => {
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchTerm(searchQuery), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    const request = ++listRequestRef.current;
+    const tags = tagsKey ? tagsKey.split('\n') : [];
+    const filter = createFilter(searchTerm, tags, starredOnly);
+    filterRef.current = filter;
+
+    Promise.all([
+      storageService.getArticlePage({ index: 'publishDate', limit: PAGE_SIZE, filter }),
+      storageService.countArticles({ tags, starredOnly, matches: searchTerm ? createSearch(searchTerm) : undefined })
+    ])
+      .then(([page, count]) => {
+        if (request !== listRequestRef.current) return;
+        setFilteredArticles(page.articles);
+        setCursor(page.next);
+        setFilteredCount(count);
+      })
+      .catch(error => console.error('Failed to load articles:', error));
+  }, [searchTerm, tagsKey, starredOnly]);
+
+  const loadOverview = async () => {
     try {
-      const articlesData = await storageService.getArticles();
-      setArticles(articlesData);
+      setOverview(await storageService.getArticleOverview());
     } catch (error) {
       console.error('Failed to load articles:', error);
     }
   };
 
-  const filteredArticles = articles.filter(article => {
-    const matchesSearch = article.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         article.content.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesTags = selectedTags.length === 0 || 
-                       selectedTags.some(tag => article.tags?.includes(tag));
-    return matchesSearch && matchesTags;
+  const loadMoreArticles = async () => {
+    if (!cursor || isLoadingMoreRef.current) return;
+    const request = listRequestRef.current;
+    isLoadingMoreRef.current = true;
+    try {
+      const page = await storageService.getArticlePage({
+        index: 'publishDate',
+        limit: PAGE_SIZE,
+        after: cursor,
+        filter: filterRef.current
+      });
+      if (request !== listRequestRef.current) return;
+      setFilteredArticles(prev => [...prev, ...page.articles]);
+      setCursor(page.next);
+    } catch (error) {
+      console.error('Failed to load more articles:', error);
+    } finally {
+      isLoadingMoreRef.current = false;
+    }
+  };
+
+  // Archived images travel inside the export as data URLs so it can be restored on another device
+  const exportArticles = async () => {
+    try {
+      const articles = (await storageService.getArticles()).filter(filterRef.current);
+      const images = await ImageArchive.exportImages(articles);
+      const data = JSON.stringify({ exportedAt: new Date().toISOString(), articles, images }, null, 2);
+      const blob = new Blob([data], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `readlater-archive-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export articles:', error);
+      toast({
+        title: 'Export failed',
+        description: 'Could not export your articles',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const virtualList = useVirtualList({
+    keys: filteredArticles.map(article => article.id),
+    scrollRef: listRef,
+    estimateSize: 200,
+    gap: 12,
+    onEndReached: loadMoreArticles
   });
 
-  const allTags = [...new Set(articles.flatMap(article => article.tags || []))];
+  const allTags = overview.tags;
 
   const handleTagFilter = (tag: string) => {
     setSelectedTags(prev => 
@@ -87,6 +199,16 @@ export const KnowledgeStore: React.FC<KnowledgeStoreProps> = ({
               onChange={(e) => setSearchQuery(e.target.value)}
             />
             
+            <Button
+              variant={starredOnly ? "default" : "outline"}
+              size="sm"
+              className="w-full justify-start"
+              onClick={() => setStarredOnly(!starredOnly)}
+            >
+              <Star className="h-4 w-4 mr-2" />
+              Starred only
+            </Button>
+            
             <div className="space-y-2">
               <h4 className="text-sm font-medium">Filter by Tags</h4>
               <div className="flex flex-wrap gap-2">
@@ -113,11 +235,11 @@ export const KnowledgeStore: React.FC<KnowledgeStoreProps> = ({
             <div className="space-y-2 text-sm">
               <div className="flex justify-between">
                 <span>Total Articles:</span>
-                <span>{articles.length}</span>
+                <span>{overview.total}</span>
               </div>
               <div className="flex justify-between">
                 <span>Filtered Results:</span>
-                <span>{filteredArticles.length}</span>
+                <span>{filteredCount}</span>
               </div>
               <div className="flex justify-between">
                 <span>Unique Tags:</span>
@@ -129,12 +251,12 @@ export const KnowledgeStore: React.FC<KnowledgeStoreProps> = ({
       </div>
 
       {/* Articles List */}
-      <div className="space-y-4 overflow-y-auto">
+      <div ref={listRef} className="space-y-4 overflow-y-auto">
         <div className="flex items-center justify-between">
           <h2 className="text-xl font-semibold">
-            Knowledge Store ({filteredArticles.length})
+            Knowledge Store ({filteredCount})
           </h2>
-          <Button variant="outline" size="sm">
+          <Button variant="outline" size="sm" onClick={exportArticles} disabled={filteredCount === 0}>
             <Download className="h-4 w-4 mr-2" />
             Export
           </Button>
@@ -144,79 +266,98 @@ export const KnowledgeStore: React.FC<KnowledgeStoreProps> = ({
           <Card>
             <CardContent className="py-8 text-center text-muted-foreground">
               <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              {articles.length === 0 ? 'No articles saved yet' : 'No articles match your search'}
+              {overview.total === 0 ? 'No articles saved yet' : 'No articles match your search'}
             </CardContent>
           </Card>
         ) : (
-          <div className="space-y-3">
-            {filteredArticles.map((article) => (
-              <Card 
-                key={article.id} 
-                className={`cursor-pointer transition-colors ${
-                  selectedArticle?.id === article.id ? 'ring-2 ring-primary' : ''
-                }`}
-                onClick={() => setSelectedArticle(article)}
-              >
-                <CardContent className="pt-4">
-                  <div className="space-y-3">
-                    <h3 className="font-medium line-clamp-2">
-                      {article.title}
-                    </h3>
-                    <p className="text-sm text-muted-foreground line-clamp-3">
-                      {article.summary || article.content.substring(0, 150) + '...'}
-                    </p>
+          <div ref={virtualList.listRef} className="relative" style={{ height: virtualList.totalSize }}>
+            {virtualList.items.map(({ index, start }) => {
+              const article = filteredArticles[index];
+              return (
+                <div
+                  key={article.id}
+                  ref={virtualList.measure}
+                  data-virtual-key={article.id}
+                  className="absolute inset-x-0"
+                  style={{ top: start }}
+                >
+                  <Card 
+                    className={`cursor-pointer transition-colors ${
+                      selectedArticle?.id === article.id ? 'ring-2 ring-primary' : ''
+                    }`}
+                    onClick={() => setSelectedArticle(article)}
+                  >
+                    <CardContent className="pt-4">
+                      <div className="space-y-3">
+                        <h3 className="font-medium line-clamp-2">
+                          {article.starredAt && (
+                            <Star className="inline h-4 w-4 mr-1 -mt-0.5 fill-yellow-400 text-yellow-400" />
+                          )}
+                          {article.title}
+                        </h3>
+                        <p className="text-sm text-muted-foreground line-clamp-3">
+                          {article.summary || article.content.substring(0, 150) + '...'}
+                        </p>
                     
-                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
-                      {article.author && (
-                        <span className="flex items-center gap-1">
-                          <User className="h-3 w-3" />
-                          {article.author}
-                        </span>
-                      )}
-                      <span className="flex items-center gap-1">
-                        <Calendar className="h-3 w-3" />
-                        {new Date(article.publishDate).toLocaleDateString()}
-                      </span>
-                    </div>
+                        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                          {article.author && (
+                            <span className="flex items-center gap-1">
+                              <User className="h-3 w-3" />
+                              {article.author}
+                            </span>
+                          )}
+                          <span className="flex items-center gap-1">
+                            <Calendar className="h-3 w-3" />
+                            {new Date(article.publishDate).toLocaleDateString()}
+                          </span>
+                          {article.snapshot && (
+                            <span className="flex items-center gap-1">
+                              <Camera className="h-3 w-3" />
+                              {formatBytes(article.snapshot.size)}
+                            </span>
+                          )}
+                        </div>
 
-                    {article.tags && article.tags.length > 0 && (
-                      <div className="flex flex-wrap gap-1">
-                        {article.tags.map(tag => (
-                          <Badge key={tag} variant="secondary" className="text-xs">
-                            {tag}
-                          </Badge>
-                        ))}
-                      </div>
-                    )}
+                        {article.tags && article.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {article.tags.map(tag => (
+                              <Badge key={tag} variant="secondary" className="text-xs">
+                                {tag}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
 
-                    <div className="flex gap-2">
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleSendToEditor(article);
-                        }}
-                      >
-                        <Send className="h-4 w-4 mr-1" />
-                        Edit
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleSendToSummarizer(article);
-                        }}
-                      >
-                        <Sparkles className="h-4 w-4 mr-1" />
-                        Summarize
-                      </Button>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleSendToEditor(article);
+                            }}
+                          >
+                            <Send className="h-4 w-4 mr-1" />
+                            Edit
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleSendToSummarizer(article);
+                            }}
+                          >
+                            <Sparkles className="h-4 w-4 mr-1" />
+                            Summarize
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
+              );
+            })}
           </div>
         )}
       </div>
@@ -255,10 +396,20 @@ export const KnowledgeStore: React.FC<KnowledgeStoreProps> = ({
                   <Sparkles className="h-4 w-4 mr-1" />
                   Summarize with AI
                 </Button>
+                {selectedArticle.snapshot && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setSnapshotArticle(selectedArticle)}
+                  >
+                    <Camera className="h-4 w-4 mr-1" />
+                    View Snapshot ({formatBytes(selectedArticle.snapshot.size)})
+                  </Button>
+                )}
               </div>
               
               <div className="prose prose-sm max-w-none overflow-y-auto max-h-96">
-                <div dangerouslySetInnerHTML={{ __html: selectedArticle.content }} />
+                <div dangerouslySetInnerHTML={{ __html: detailHtml }} />
               </div>
 
               {selectedArticle.url && (
@@ -281,6 +432,8 @@ export const KnowledgeStore: React.FC<KnowledgeStoreProps> = ({
           </Card>
         )}
       </div>
+
+      <SnapshotDialog article={snapshotArticle} onClose={() => setSnapshotArticle(null)} />
     </div>
   );
 };
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { storageService, type Article, type PageSnapshot } from '@/services/storageService';
+import { formatBytes } from '@/lib/utils';
+
+interface SnapshotDialogProps {
+  article: Article | null;
+  onClose: () => void;
+}
+
+export const SnapshotDialog: React.FC<SnapshotDialogProps> = ({ article, onClose }) => {
+  const [snapshot, setSnapshot] = useState<PageSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const snapshotId = article?.snapshot?.id;
+
+  // Snapshots can be several megabytes, so they are only read while being viewed
+  useEffect(() => {
+    setSnapshot(null);
+    setError(null);
+    if (!snapshotId) return;
+
+    let cancelled = false;
+    storageService.getSnapshot(snapshotId)
+      .then(result => {
+        if (cancelled) return;
+        if (result) {
+          setSnapshot(result);
+        } else {
+          setError('This snapshot is no longer stored');
+        }
+      })
+      .catch(loadError => {
+        console.error('Failed to load snapshot:', loadError);
+        if (!cancelled) setError('Failed to load snapshot');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [snapshotId]);
+
+  return (
+    <Dialog open={Boolean(article)} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="line-clamp-1">{article?.title}</DialogTitle>
+          <DialogDescription>
+            {snapshot
+              ? `Saved ${new Date(snapshot.savedAt).toLocaleString()} · ${formatBytes(snapshot.size)}`
+              : article?.snapshot && formatBytes(article.snapshot.size)}
+          </DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">{error}</p>
+        ) : (
+          // No allow-scripts or allow-same-origin: the page can't run code or reach the app's storage
+          <iframe
+            title="Page snapshot"
+            sandbox="allow-popups allow-popups-to-escape-sandbox"
+            srcDoc={snapshot?.html || ''}
+            className="w-full h-[70vh] rounded-md border bg-white"
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -2,6 +2,7 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Moon, Sun, BookOpen } from 'lucide-react';
+import { SettingsDialog } from './SettingsDialog';
 
 interface AppHeaderProps {
   theme: string;
@@ -23,6 +24,7 @@ export const AppHeader: React.FC<AppHeaderProps> = ({ theme, onToggleTheme }) =>
         </div>
         
         <div className="flex items-center space-x-2">
+          <SettingsDialog />
           <Button
             variant="ghost"
             size="sm"
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Settings, Plus, Trash2 } from 'lucide-react';
+import { AppSettings, type FetchSettings, type FetchTransport, type RoutingRule } from '@/services/appSettings';
+import { StorageSettings } from './StorageSettings';
+
+export const SettingsDialog: React.FC = () => {
+  const [demoMode, setDemoMode] = useState(AppSettings.isDemoMode());
+  const [readOnScroll, setReadOnScroll] = useState(AppSettings.isReadOnScroll());
+  const [fetchSettings, setFetchSettings] = useState<FetchSettings>(AppSettings.getFetchSettings());
+
+  const handleDemoModeChange = (enabled: boolean) => {
+    setDemoMode(enabled);
+    AppSettings.setDemoMode(enabled);
+  };
+
+  const handleReadOnScrollChange = (enabled: boolean) => {
+    setReadOnScroll(enabled);
+    AppSettings.setReadOnScroll(enabled);
+  };
+
+  const updateFetchSettings = (changes: Partial<FetchSettings>) => {
+    const updated = { ...fetchSettings, ...changes };
+    setFetchSettings(updated);
+    AppSettings.saveFetchSettings(updated);
+  };
+
+  const updateRule = (id: string, changes: Partial<RoutingRule>) => {
+    updateFetchSettings({
+      rules: fetchSettings.rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule)
+    });
+  };
+
+  const addRule = () => {
+    updateFetchSettings({
+      rules: [...fetchSettings.rules, { id: Date.now().toString(), domain: '', transport: 'proxy' }]
+    });
+  };
+
+  const removeRule = (id: string) => {
+    updateFetchSettings({ rules: fetchSettings.rules.filter(rule => rule.id !== id) });
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-9 w-9 p-0">
+          <Settings className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Preferences are stored in this browser</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="demo-mode">Demo mode</Label>
+            <p className="text-sm text-muted-foreground">
+              Return sample feeds and articles instead of fetching real URLs. Useful for trying the app
+              without network access.
+            </p>
+          </div>
+          <Switch id="demo-mode" checked={demoMode} onCheckedChange={handleDemoModeChange} />
+        </div>
+
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="read-on-scroll">Mark as read on scroll</Label>
+            <p className="text-sm text-muted-foreground">
+              Mark RSS articles as read once they scroll past the top of the list.
+            </p>
+          </div>
+          <Switch id="read-on-scroll" checked={readOnScroll} onCheckedChange={handleReadOnScrollChange} />
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <h4 className="text-sm font-medium">Network</h4>
+            <p className="text-sm text-muted-foreground">
+              Most sites block cross-origin requests from the browser. Route them through a CORS proxy,
+              e.g. the bundled one started with <code>npm run proxy</code>.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Default transport</Label>
+              <Select
+                value={fetchSettings.defaultTransport}
+                onValueChange={(value) => updateFetchSettings({ defaultTransport: value as FetchTransport })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="direct">Direct</SelectItem>
+                  <SelectItem value="proxy">CORS proxy</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fetch-timeout">Timeout (seconds)</Label>
+              <Input
+                id="fetch-timeout"
+                type="number"
+                min={1}
+                value={fetchSettings.timeout / 1000}
+                onChange={(e) => updateFetchSettings({ timeout: Math.max(1, Number(e.target.value) || 1) * 1000 })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="proxy-template">Proxy URL template</Label>
+            <Input
+              id="proxy-template"
+              placeholder="https://proxy.example.com/?url={url}"
+              value={fetchSettings.proxyTemplate}
+              onChange={(e) => updateFetchSettings({ proxyTemplate: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">
+              <code>{'{url}'}</code> is replaced with the encoded target URL
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Per-domain rules</Label>
+              <Button variant="outline" size="sm" onClick={addRule}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Rule
+              </Button>
+            </div>
+            {fetchSettings.rules.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                No rules. Every request uses the default transport.
+              </p>
+            )}
+            {fetchSettings.rules.map(rule => (
+              <div key={rule.id} className="flex items-center gap-2">
+                <Input
+                  placeholder="example.com"
+                  value={rule.domain}
+                  onChange={(e) => updateRule(rule.id, { domain: e.target.value })}
+                />
+                <Select
+                  value={rule.transport}
+                  onValueChange={(value) => updateRule(rule.id, { transport: value as FetchTransport })}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="direct">Direct</SelectItem>
+                    <SelectItem value="proxy">CORS proxy</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="Timeout (s)"
+                  className="w-28"
+                  value={rule.timeout ? rule.timeout / 1000 : ''}
+                  onChange={(e) => updateRule(rule.id, { timeout: Number(e.target.value) * 1000 || undefined })}
+                />
+                <Button variant="ghost" size="sm" onClick={() => removeRule(rule.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <Separator />
+
+        <StorageSettings />
+      </DialogContent>
+    </Dialog>
+  );
+};
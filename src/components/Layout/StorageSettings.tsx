@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Eraser, Trash2 } from 'lucide-react';
+import { AppSettings, type RetentionPolicy } from '@/services/appSettings';
+import { retentionService, type CleanupPlan, type StorageUsage } from '@/services/retentionService';
+import { toast } from '@/hooks/use-toast';
+import { formatBytes } from '@/lib/utils';
+
+const parseLimit = (value: string): number | undefined => {
+  const number = Math.floor(Number(value));
+  return number > 0 ? number : undefined;
+};
+
+export const StorageSettings: React.FC = () => {
+  const [policy, setPolicy] = useState<RetentionPolicy>(AppSettings.getRetentionPolicy());
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [plan, setPlan] = useState<CleanupPlan | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    loadUsage();
+  }, []);
+
+  const loadUsage = async () => {
+    try {
+      setUsage(await retentionService.getUsage());
+    } catch (error) {
+      console.error('Failed to estimate storage usage:', error);
+    }
+  };
+
+  const updatePolicy = (changes: Partial<RetentionPolicy>) => {
+    const updated = { ...policy, ...changes };
+    setPolicy(updated);
+    AppSettings.saveRetentionPolicy(updated);
+    setPlan(null);
+  };
+
+  const previewCleanup = async () => {
+    setIsWorking(true);
+    try {
+      setPlan(await retentionService.plan());
+    } catch (error) {
+      console.error('Failed to plan clean-up:', error);
+      toast({
+        title: 'Clean-up failed',
+        description: 'Could not read the stored articles',
+        variant: 'destructive',
+      });
+    }
+    setIsWorking(false);
+  };
+
+  const runCleanup = async () => {
+    if (!plan) return;
+
+    setIsWorking(true);
+    try {
+      const deleted = await retentionService.cleanUp(plan);
+      setPlan(null);
+      await loadUsage();
+      toast({
+        title: 'Clean-up complete',
+        description: `${deleted} articles deleted`,
+      });
+    } catch (error) {
+      console.error('Failed to clean up articles:', error);
+      toast({
+        title: 'Clean-up failed',
+        description: 'Some articles could not be deleted',
+        variant: 'destructive',
+      });
+    }
+    setIsWorking(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <h4 className="text-sm font-medium">Storage</h4>
+        <p className="text-sm text-muted-foreground">
+          Feed articles are kept until a retention limit removes them. Starred articles and ones with notes,
+          highlights or tags are never deleted. Feeds can override these limits in their settings.
+        </p>
+      </div>
+
+      {usage && (
+        <div className="space-y-2">
+          {usage.usage !== undefined && usage.quota ? (
+            <>
+              <div className="flex justify-between text-sm">
+                <span>{formatBytes(usage.usage)} used</span>
+                <span className="text-muted-foreground">of {formatBytes(usage.quota)} available</span>
+              </div>
+              <Progress value={(usage.usage / usage.quota) * 100} className="h-2" />
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">This browser does not report storage usage.</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {usage.articles} articles stored, {usage.protectedArticles} protected from clean-up
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="retention-max-items">Keep newest articles per feed</Label>
+          <Input
+            id="retention-max-items"
+            type="number"
+            min={1}
+            placeholder="Unlimited"
+            value={policy.maxItems ?? ''}
+            onChange={(e) => updatePolicy({ maxItems: parseLimit(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="retention-read-max-age">Delete read articles after (days)</Label>
+          <Input
+            id="retention-read-max-age"
+            type="number"
+            min={1}
+            placeholder="Never"
+            value={policy.readMaxAgeDays ?? ''}
+            onChange={(e) => updatePolicy({ readMaxAgeDays: parseLimit(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Button variant="outline" size="sm" onClick={previewCleanup} disabled={isWorking}>
+          <Eraser className="h-4 w-4 mr-2" />
+          Clean Up Now
+        </Button>
+
+        {plan && (
+          <div className="rounded-md border p-3 space-y-2">
+            {plan.total === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing to clean up. Every feed is within its limits.</p>
+            ) : (
+              <>
+                <p className="text-sm font-medium">{plan.total} articles would be deleted</p>
+                <ul className="text-xs text-muted-foreground space-y-1 max-h-40 overflow-y-auto">
+                  {plan.byFeed.map(entry => (
+                    <li key={entry.feedId} className="flex justify-between gap-2">
+                      <span className="truncate">{entry.feedTitle}</span>
+                      <span className="shrink-0">
+                        {[
+                          entry.overLimit.length > 0 && `${entry.overLimit.length} over limit`,
+                          entry.readExpired.length > 0 && `${entry.readExpired.length} old and read`
+                        ].filter(Boolean).join(', ')}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <Button variant="destructive" size="sm" onClick={runCleanup} disabled={isWorking}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete {plan.total} Articles
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setPlan(null)} disabled={isWorking}>
+                    Cancel
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
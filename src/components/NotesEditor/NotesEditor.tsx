@@ -36,7 +36,7 @@ export const NotesEditor: React.FC<NotesEditorProps> = ({ article, onSaveToKnowl
 
   useEffect(() => {
     if (article) {
-      setContent(article.content);
+      setContent(article.fullContent || article.content);
       setNotes(article.notes || '');
       setTags(article.tags || []);
       setTitle(article.title);
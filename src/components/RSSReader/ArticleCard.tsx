@@ -0,0 +1,129 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Send, Calendar, Sparkles, Circle, CircleCheck, Star, BookOpen, Layers } from 'lucide-react';
+import type { Article, Feed } from '@/services/storageService';
+import { MediaPlayButton } from './MediaAttachment';
+
+interface ArticleCardProps {
+  article: Article;
+  feed?: Feed;
+  alsoIn?: Feed[]; // other feeds that carry the same story
+  onView: (article: Article) => void;
+  onPlay: (article: Article) => void; // opens the reader with its player started
+  onSendToEditor: (article: Article) => void;
+  onSendToSummarizer: (article: Article) => void;
+  onToggleRead: (article: Article) => void;
+  onToggleStar: (article: Article) => void;
+}
+
+export const ArticleCard: React.FC<ArticleCardProps> = ({
+  article,
+  feed,
+  alsoIn = [],
+  onView,
+  onPlay,
+  onSendToEditor,
+  onSendToSummarizer,
+  onToggleRead,
+  onToggleStar
+}) => {
+  return (
+    <Card className={article.isRead ? 'opacity-60' : ''}>
+      <CardContent className="pt-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex-1">
+            <div className="flex items-start gap-2 mb-2">
+              <h3
+                className="flex-1 font-medium line-clamp-2 cursor-pointer hover:underline"
+                onClick={() => onView(article)}
+              >
+                {article.title}
+              </h3>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0 shrink-0"
+                title={article.starredAt ? 'Unstar' : 'Star'}
+                onClick={() => onToggleStar(article)}
+              >
+                <Star className={`h-4 w-4 ${article.starredAt ? 'fill-yellow-400 text-yellow-400' : ''}`} />
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground line-clamp-3 mb-3">
+              {article.summary}
+            </p>
+            {article.attachments && article.attachments.length > 0 && (
+              <MediaPlayButton attachments={article.attachments} onPlay={() => onPlay(article)} />
+            )}
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              {feed && (
+                <span className="flex items-center gap-1">
+                  {feed.favicon && (
+                    <img src={feed.favicon} alt="" className="h-3 w-3 rounded-sm" />
+                  )}
+                  {feed.title}
+                </span>
+              )}
+              {article.author && (
+                <span>by {article.author}</span>
+              )}
+              <span className="flex items-center gap-1">
+                <Calendar className="h-3 w-3" />
+                {new Date(article.publishDate).toLocaleDateString()}
+              </span>
+            </div>
+            {alsoIn.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1 mt-2 text-xs text-muted-foreground">
+                <Layers className="h-3 w-3" />
+                Also in
+                {alsoIn.map(source => (
+                  <Badge key={source.id} variant="secondary" className="gap-1 font-normal">
+                    {source.favicon && <img src={source.favicon} alt="" className="h-3 w-3 rounded-sm" />}
+                    {source.title}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex flex-col gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onSendToEditor(article)}
+            >
+              <Send className="h-4 w-4 mr-1" />
+              Edit
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onSendToSummarizer(article)}
+            >
+              <Sparkles className="h-4 w-4 mr-1" />
+              Summarize
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onView(article)}
+            >
+              <BookOpen className="h-4 w-4 mr-1" />
+              View
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              title={article.isRead ? 'Mark as unread' : 'Mark as read'}
+              onClick={() => onToggleRead(article)}
+            >
+              {article.isRead ? <Circle className="h-4 w-4 mr-1" /> : <CircleCheck className="h-4 w-4 mr-1" />}
+              {article.isRead ? 'Unread' : 'Read'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Rss } from 'lucide-react';
+import type { DiscoveredFeed } from '@/services/feedDiscovery';
+
+interface FeedDiscoveryDialogProps {
+  pageUrl: string;
+  feeds: DiscoveredFeed[];
+  isLoading: boolean;
+  onSelect: (feed: DiscoveredFeed) => void;
+  onCancel: () => void;
+}
+
+const formatType = (type: string) => {
+  if (type.includes('atom')) return 'Atom';
+  if (type.includes('json')) return 'JSON Feed';
+  if (type.includes('rdf') || type === 'rss1') return 'RSS 1.0';
+  return 'RSS';
+};
+
+export const FeedDiscoveryDialog: React.FC<FeedDiscoveryDialogProps> = ({
+  pageUrl,
+  feeds,
+  isLoading,
+  onSelect,
+  onCancel
+}) => {
+  return (
+    <Dialog open={feeds.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Choose a Feed</DialogTitle>
+          <DialogDescription className="truncate">
+            {feeds.length} feeds found on {pageUrl}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto space-y-2">
+          {feeds.map(feed => (
+            <div key={feed.url} className="flex items-center gap-3 rounded-md border p-3">
+              <Rss className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">{feed.title}</div>
+                <div className="text-xs text-muted-foreground truncate">{feed.url}</div>
+              </div>
+              <Badge variant="outline" className="shrink-0">{formatType(feed.type)}</Badge>
+              <Button size="sm" onClick={() => onSelect(feed)} disabled={isLoading}>
+                Subscribe
+              </Button>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
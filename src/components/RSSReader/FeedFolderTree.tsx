@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronDown, ChevronRight, Folder, CheckCheck, Settings, Rss } from 'lucide-react';
+import { buildCategoryTree, type CategoryNode } from '@/services/feedCategories';
+import { feedScheduler } from '@/services/feedScheduler';
+import type { Feed } from '@/services/storageService';
+
+interface FeedFolderTreeProps {
+  feeds: Feed[];
+  unreadCounts: Record<string, number>;
+  selectedFeed: string | null;
+  selectedCategory: string | null;
+  onSelectFeed: (feedId: string) => void;
+  onSelectCategory: (path: string) => void;
+  onEditFeed: (feed: Feed) => void;
+  onChangeInterval: (feed: Feed, updateInterval: number) => void;
+  onMoveFeed: (feedId: string, category: string) => void;
+  onMarkFolderRead: (path: string) => void;
+}
+
+const getIntervalHint = (feed: Feed) => {
+  const effectiveInterval = feedScheduler.getEffectiveInterval(feed);
+  if (effectiveInterval <= feed.updateInterval) return undefined;
+  return `The publisher asks for updates at most every ${Math.round(effectiveInterval / 60000)} minutes`;
+};
+
+const formatScheduleStatus = (feed: Feed) => {
+  const status = feedScheduler.getStatus(feed);
+  const nextRun = new Date(status.nextRun).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  if (status.isRefreshing) return 'Updating...';
+  if (status.lastError) return `Failed, retrying at ${nextRun}`;
+  return status.nextRun <= Date.now() ? 'Update pending' : `Next update ${nextRun}`;
+};
+
+const countUnread = (node: CategoryNode, unreadCounts: Record<string, number>): number => {
+  return node.feeds.reduce((sum, feed) => sum + (unreadCounts[feed.id] || 0), 0) +
+    node.children.reduce((sum, child) => sum + countUnread(child, unreadCounts), 0);
+};
+
+export const FeedFolderTree: React.FC<FeedFolderTreeProps> = (props) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const toggleFolder = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const handleDrop = (event: React.DragEvent, path: string) => {
+    event.preventDefault();
+    setDropTarget(null);
+    const feedId = event.dataTransfer.getData('application/x-feed-id');
+    const feed = props.feeds.find(candidate => candidate.id === feedId);
+    if (feed && feed.category !== path) {
+      props.onMoveFeed(feedId, path);
+    }
+  };
+
+  const renderFeed = (feed: Feed) => {
+    const status = feedScheduler.getStatus(feed);
+    const unread = props.unreadCounts[feed.id] || 0;
+
+    return (
+      <div
+        key={feed.id}
+        className="space-y-1"
+        draggable
+        onDragStart={(event) => {
+          event.dataTransfer.setData('application/x-feed-id', feed.id);
+          event.dataTransfer.effectAllowed = 'move';
+        }}
+      >
+        <Button
+          variant={props.selectedFeed === feed.id ? "default" : "ghost"}
+          className="w-full justify-start"
+          onClick={() => props.onSelectFeed(feed.id)}
+        >
+          {feed.favicon ? (
+            <img src={feed.favicon} alt="" className="h-4 w-4 mr-2 rounded-sm shrink-0" />
+          ) : (
+            <Rss className="h-4 w-4 mr-2 shrink-0 text-muted-foreground" />
+          )}
+          <div className="flex-1 text-left truncate">
+            {feed.title}
+          </div>
+          {unread > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {unread}
+            </Badge>
+          )}
+        </Button>
+        <div className="flex items-center gap-2 px-4 text-xs text-muted-foreground">
+          <span
+            className={`flex-1 truncate ${status.lastError ? 'text-destructive' : ''}`}
+            title={status.lastError || getIntervalHint(feed)}
+          >
+            {formatScheduleStatus(feed)}
+          </span>
+          <Select
+            value={String(feed.updateInterval)}
+            onValueChange={(value) => props.onChangeInterval(feed, Number(value))}
+          >
+            <SelectTrigger className="h-6 w-36 text-xs">
+              <SelectValue placeholder="Interval" />
+            </SelectTrigger>
+            <SelectContent>
+              {feedScheduler.getUpdateIntervals().map((interval) => (
+                <SelectItem key={interval.value} value={String(interval.value)}>
+                  {interval.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            title="Feed settings"
+            onClick={() => props.onEditFeed(feed)}
+          >
+            <Settings className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderFolder = (node: CategoryNode, depth: number) => {
+    const isCollapsed = collapsed.has(node.path);
+    const unread = countUnread(node, props.unreadCounts);
+
+    return (
+      <div key={node.path} className={depth > 0 ? 'pl-3' : ''}>
+        <div
+          className={`group flex items-center gap-1 rounded-md ${dropTarget === node.path ? 'ring-2 ring-primary' : ''}`}
+          onDragOver={(event) => {
+            event.preventDefault();
+            event.dataTransfer.dropEffect = 'move';
+            setDropTarget(node.path);
+          }}
+          onDragLeave={() => setDropTarget(current => current === node.path ? null : current)}
+          onDrop={(event) => handleDrop(event, node.path)}
+        >
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-6 p-0"
+            onClick={() => toggleFolder(node.path)}
+          >
+            {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+          <Button
+            variant={props.selectedCategory === node.path ? "default" : "ghost"}
+            size="sm"
+            className="flex-1 justify-start h-8"
+            onClick={() => props.onSelectCategory(node.path)}
+          >
+            <Folder className="h-4 w-4 mr-2" />
+            <span className="flex-1 text-left truncate font-medium">{node.name}</span>
+            {unread > 0 && (
+              <Badge variant="secondary" className="ml-2">
+                {unread}
+              </Badge>
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0 opacity-0 group-hover:opacity-100"
+            title="Mark folder as read"
+            disabled={unread === 0}
+            onClick={() => props.onMarkFolderRead(node.path)}
+          >
+            <CheckCheck className="h-4 w-4" />
+          </Button>
+        </div>
+        {!isCollapsed && (
+          <div className="pl-3 space-y-1">
+            {node.children.map(child => renderFolder(child, depth + 1))}
+            {node.feeds.map(renderFeed)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-1">
+      {buildCategoryTree(props.feeds).map(node => renderFolder(node, 0))}
+    </div>
+  );
+};
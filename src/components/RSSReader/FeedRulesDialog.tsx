@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { FlaskConical, Plus, Trash2 } from 'lucide-react';
+import { AppSettings, type FeedRule, type FeedRuleAction, type FeedRuleField } from '@/services/appSettings';
+import { FeedRuleEngine } from '@/services/feedRules';
+import { storageService, type Article, type Feed } from '@/services/storageService';
+
+interface FeedRulesDialogProps {
+  open: boolean;
+  feeds: Feed[];
+  onClose: () => void;
+}
+
+const ALL_FEEDS = 'all';
+const PREVIEW_LIMIT = 8;
+
+export const FeedRulesDialog: React.FC<FeedRulesDialogProps> = ({ open, feeds, onClose }) => {
+  const [rules, setRules] = useState<FeedRule[]>(AppSettings.getFeedRules());
+  const [testingRuleId, setTestingRuleId] = useState<string | null>(null);
+  const [articles, setArticles] = useState<Article[]>([]);
+
+  // The tester needs article bodies, which the paged article list doesn't keep, so they're read when the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    storageService.getArticles()
+      .then(articlesData => setArticles(articlesData.filter(article => article.feedId)))
+      .catch(error => console.error('Failed to load articles:', error));
+  }, [open]);
+
+  const saveRules = (updated: FeedRule[]) => {
+    setRules(updated);
+    AppSettings.saveFeedRules(updated);
+  };
+
+  const updateRule = (id: string, changes: Partial<FeedRule>) => {
+    saveRules(rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+  };
+
+  const addRule = () => {
+    saveRules([...rules, {
+      id: Date.now().toString(),
+      enabled: true,
+      field: 'title',
+      pattern: '',
+      negate: false,
+      action: 'hide'
+    }]);
+  };
+
+  const removeRule = (id: string) => {
+    saveRules(rules.filter(rule => rule.id !== id));
+    if (testingRuleId === id) setTestingRuleId(null);
+  };
+
+  const testingRule = rules.find(rule => rule.id === testingRuleId);
+  // The tester ignores the enabled switch so rules can be tried out before turning them on
+  const preview = testingRule && !FeedRuleEngine.validate(testingRule.pattern)
+    ? FeedRuleEngine.preview({ ...testingRule, enabled: true }, articles)
+    : null;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Filter Rules</DialogTitle>
+          <DialogDescription>
+            Rules run on new items as feeds are refreshed, in order. Use plain text or a /regular expression/.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {rules.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No rules yet. Hide sponsored posts, keep only one author's items, or tag topics automatically.
+            </p>
+          )}
+
+          {rules.map(rule => {
+            const error = FeedRuleEngine.validate(rule.pattern);
+            return (
+              <div key={rule.id} className={`rounded-md border p-3 space-y-2 ${rule.enabled ? '' : 'opacity-60'}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(enabled) => updateRule(rule.id, { enabled })}
+                    title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                  />
+                  <Select
+                    value={rule.feedId || ALL_FEEDS}
+                    onValueChange={(value) => updateRule(rule.id, { feedId: value === ALL_FEEDS ? undefined : value })}
+                  >
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_FEEDS}>All feeds</SelectItem>
+                      {feeds.map(feed => (
+                        <SelectItem key={feed.id} value={feed.id}>{feed.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={rule.field}
+                    onValueChange={(value) => updateRule(rule.id, { field: value as FeedRuleField })}
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="title">Title</SelectItem>
+                      <SelectItem value="author">Author</SelectItem>
+                      <SelectItem value="content">Content</SelectItem>
+                      <SelectItem value="any">Any field</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={rule.negate ? 'not' : 'matches'}
+                    onValueChange={(value) => updateRule(rule.id, { negate: value === 'not' })}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="matches">matches</SelectItem>
+                      <SelectItem value="not">doesn't match</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <div className="ml-auto flex gap-1">
+                    <Button
+                      variant={testingRuleId === rule.id ? 'secondary' : 'ghost'}
+                      size="sm"
+                      title="Preview matching articles"
+                      onClick={() => setTestingRuleId(testingRuleId === rule.id ? null : rule.id)}
+                    >
+                      <FlaskConical className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => removeRule(rule.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <Input
+                    className="flex-1 min-w-48"
+                    placeholder="/sponsored/i"
+                    value={rule.pattern}
+                    onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                  />
+                  <Select
+                    value={rule.action}
+                    onValueChange={(value) => updateRule(rule.id, { action: value as FeedRuleAction })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="hide">Hide</SelectItem>
+                      <SelectItem value="mark-read">Mark read</SelectItem>
+                      <SelectItem value="tag">Tag</SelectItem>
+                      <SelectItem value="star">Star</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {rule.action === 'tag' && (
+                    <Input
+                      className="w-32"
+                      placeholder="Tag"
+                      value={rule.tag || ''}
+                      onChange={(e) => updateRule(rule.id, { tag: e.target.value.trim() || undefined })}
+                    />
+                  )}
+                </div>
+                {rule.pattern && error && (
+                  <p className="text-xs text-destructive">{error}</p>
+                )}
+
+                {testingRuleId === rule.id && (
+                  <div className="rounded-md bg-muted p-2 text-xs space-y-1">
+                    {!preview ? (
+                      <p className="text-muted-foreground">Enter a valid pattern to preview matches.</p>
+                    ) : (
+                      <>
+                        <p className="font-medium">
+                          {preview.articles.length} of {articles.length} stored
+                          articles match
+                        </p>
+                        {preview.articles.slice(0, PREVIEW_LIMIT).map(article => (
+                          <p key={article.id} className="truncate text-muted-foreground">{article.title}</p>
+                        ))}
+                        {preview.articles.length > PREVIEW_LIMIT && (
+                          <p className="text-muted-foreground">and {preview.articles.length - PREVIEW_LIMIT} more</p>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <Button variant="outline" size="sm" onClick={addRule}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Rule
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,321 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Save, Trash2 } from 'lucide-react';
+import { storageService, type Feed } from '@/services/storageService';
+import { feedScheduler } from '@/services/feedScheduler';
+import { AppSettings } from '@/services/appSettings';
+import { OPMLService } from '@/services/opmlService';
+import { toast } from '@/hooks/use-toast';
+
+interface FeedSettingsDialogProps {
+  feed: Feed | null;
+  categories: string[];
+  onClose: () => void;
+  onChanged: () => void;
+  onUnsubscribed: (feedId: string) => void;
+}
+
+// Blank inherits the global policy, 0 disables the limit for this feed
+const parseLimit = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const number = Math.floor(Number(value));
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+const describeDefault = (value: number | undefined, unit: string) => {
+  return value ? `Default: ${value} ${unit}` : 'Default: unlimited';
+};
+
+export const FeedSettingsDialog: React.FC<FeedSettingsDialogProps> = ({
+  feed,
+  categories,
+  onClose,
+  onChanged,
+  onUnsubscribed
+}) => {
+  const [title, setTitle] = useState('');
+  const [url, setUrl] = useState('');
+  const [category, setCategory] = useState('');
+  const [updateInterval, setUpdateInterval] = useState(3600000);
+  const [maxItems, setMaxItems] = useState('');
+  const [readMaxAgeDays, setReadMaxAgeDays] = useState('');
+  const [fetchFullContent, setFetchFullContent] = useState(false);
+  const [articleAction, setArticleAction] = useState<'keep' | 'delete'>('keep');
+  const [isSaving, setIsSaving] = useState(false);
+  const globalRetention = AppSettings.getRetentionPolicy();
+
+  useEffect(() => {
+    if (feed) {
+      setTitle(feed.title);
+      setUrl(feed.url);
+      setCategory(feed.category);
+      setUpdateInterval(feed.updateInterval);
+      setMaxItems(feed.retention?.maxItems?.toString() ?? '');
+      setReadMaxAgeDays(feed.retention?.readMaxAgeDays?.toString() ?? '');
+      setFetchFullContent(Boolean(feed.fetchFullContent));
+      setArticleAction('keep');
+    }
+  }, [feed]);
+
+  const handleSave = async () => {
+    if (!feed) return;
+
+    if (!OPMLService.isValidFeedUrl(url.trim())) {
+      toast({
+        title: 'Invalid URL',
+        description: 'Feed URLs must start with http:// or https://',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const urlChanged = url.trim() !== feed.url;
+      if (urlChanged) {
+        const others = (await storageService.getFeeds()).filter(other => other.id !== feed.id);
+        const duplicate = others.find(other => OPMLService.normalizeUrl(other.url) === OPMLService.normalizeUrl(url));
+        if (duplicate) {
+          toast({
+            title: 'Already subscribed',
+            description: `${duplicate.title} already uses this URL`,
+            variant: 'destructive',
+          });
+          setIsSaving(false);
+          return;
+        }
+      }
+
+      await storageService.patchFeed(feed.id, {
+        title: title.trim() || feed.title,
+        url: url.trim(),
+        category: category.trim() || 'General',
+        updateInterval,
+        fetchFullContent,
+        retention: {
+          maxItems: parseLimit(maxItems),
+          readMaxAgeDays: parseLimit(readMaxAgeDays)
+        },
+        // A new URL invalidates cached validators and the old site's icon, and is fetched on the
+        // scheduler's next tick
+        ...(urlChanged ? {
+          lastUpdated: 0,
+          siteUrl: undefined,
+          favicon: undefined,
+          faviconCheckedAt: undefined,
+          etag: undefined,
+          lastModified: undefined,
+          cacheMaxAge: undefined,
+          ttl: undefined,
+          syndicationInterval: undefined,
+          removedItems: undefined
+        } : {})
+      });
+
+      if (urlChanged) feedScheduler.forget(feed.id);
+      onChanged();
+      onClose();
+      toast({
+        title: 'Feed updated',
+        description: `Saved settings for ${title.trim() || feed.title}`,
+      });
+    } catch (error) {
+      console.error('Failed to update feed:', error);
+      toast({
+        title: 'Failed to update feed',
+        description: 'The feed settings could not be saved',
+        variant: 'destructive',
+      });
+    }
+    setIsSaving(false);
+  };
+
+  const handleUnsubscribe = async () => {
+    if (!feed) return;
+
+    setIsSaving(true);
+    try {
+      const { deleted, kept } = await storageService.deleteFeed(feed.id, {
+        deleteArticles: articleAction === 'delete'
+      });
+      feedScheduler.forget(feed.id);
+      onUnsubscribed(feed.id);
+      onClose();
+      toast({
+        title: `Unsubscribed from ${feed.title}`,
+        description: `${deleted} articles deleted, ${kept} kept in the Knowledge Store`,
+      });
+    } catch (error) {
+      console.error('Failed to unsubscribe:', error);
+      toast({
+        title: 'Failed to unsubscribe',
+        description: 'The feed could not be removed',
+        variant: 'destructive',
+      });
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open={feed !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Feed Settings</DialogTitle>
+          <DialogDescription className="truncate">{feed?.url}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="feed-title">Name</Label>
+            <Input id="feed-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="feed-url">Feed URL</Label>
+            <Input id="feed-url" value={url} onChange={(e) => setUrl(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="feed-category">Category</Label>
+              <Input
+                id="feed-category"
+                list="feed-categories"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+              />
+              <datalist id="feed-categories">
+                {categories.map(name => <option key={name} value={name} />)}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label>Update interval</Label>
+              <Select value={String(updateInterval)} onValueChange={(value) => setUpdateInterval(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {feedScheduler.getUpdateIntervals().map((interval) => (
+                    <SelectItem key={interval.value} value={String(interval.value)}>
+                      {interval.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="feed-full-content">Fetch full article text</Label>
+            <p className="text-xs text-muted-foreground">
+              For feeds that only include an excerpt. New items are downloaded from their original page so
+              search and summaries see the whole article.
+            </p>
+          </div>
+          <Switch id="feed-full-content" checked={fetchFullContent} onCheckedChange={setFetchFullContent} />
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <h4 className="text-sm font-medium">Retention</h4>
+            <p className="text-xs text-muted-foreground">
+              Leave blank to use the global policy, or enter 0 for no limit. Starred articles and ones with
+              notes, highlights or tags are never deleted.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="feed-max-items">Keep newest articles</Label>
+              <Input
+                id="feed-max-items"
+                type="number"
+                min={0}
+                placeholder={describeDefault(globalRetention.maxItems, 'articles')}
+                value={maxItems}
+                onChange={(e) => setMaxItems(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="feed-read-max-age">Delete read articles after (days)</Label>
+              <Input
+                id="feed-read-max-age"
+                type="number"
+                min={0}
+                placeholder={describeDefault(globalRetention.readMaxAgeDays, 'days')}
+                value={readMaxAgeDays}
+                onChange={(e) => setReadMaxAgeDays(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium">Unsubscribe</h4>
+          <RadioGroup value={articleAction} onValueChange={(value) => setArticleAction(value as 'keep' | 'delete')}>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="keep" id="articles-keep" />
+              <Label htmlFor="articles-keep" className="font-normal">Keep this feed's articles</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="delete" id="articles-delete" />
+              <Label htmlFor="articles-delete" className="font-normal">
+                Delete articles, except starred ones and ones with notes, highlights or tags
+              </Label>
+            </div>
+          </RadioGroup>
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" disabled={isSaving}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Unsubscribe
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Unsubscribe from {feed?.title}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {articleAction === 'delete'
+                    ? 'Unstarred articles without notes, highlights or tags will be permanently deleted.'
+                    : 'Existing articles stay available in the Knowledge Store.'}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleUnsubscribe}>Unsubscribe</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+          <Button onClick={handleSave} disabled={isSaving}>
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
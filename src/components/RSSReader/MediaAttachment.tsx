@@ -0,0 +1,161 @@
+import React, { useEffect, useRef } from 'react';
+import { Paperclip, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { storageService, type Attachment } from '@/services/storageService';
+
+interface MediaAttachmentProps {
+  articleId: string;
+  attachments: Attachment[];
+  autoPlay?: boolean;
+}
+
+interface MediaPlayButtonProps {
+  attachments: Attachment[];
+  onPlay: () => void;
+}
+
+const SAVE_INTERVAL = 5; // seconds of playback between position saves
+
+const getMediaKind = (attachment: Attachment): 'audio' | 'video' | null => {
+  if (attachment.mimeType.startsWith('audio/')) return 'audio';
+  if (attachment.mimeType.startsWith('video/')) return 'video';
+  if (/\.(mp3|m4a|aac|ogg|oga|opus|wav)(\?|$)/i.test(attachment.url)) return 'audio';
+  if (/\.(mp4|m4v|webm|mov)(\?|$)/i.test(attachment.url)) return 'video';
+  return null;
+};
+
+const formatDuration = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// The parser keeps only http(s) media; articles stored before it did are checked again here
+const isWebUrl = (url: string) => /^https?:\/\//i.test(url);
+
+// List rows are unmounted as they scroll out of view, so cards only offer to play and the one
+// player lives in the reader
+export const MediaPlayButton: React.FC<MediaPlayButtonProps> = ({ attachments, onPlay }) => {
+  const playable = attachments.find(attachment => isWebUrl(attachment.url) && getMediaKind(attachment) !== null);
+  if (!playable) return null;
+
+  return (
+    <Button size="sm" variant="outline" className="mb-3" onClick={onPlay}>
+      <Play className="h-3 w-3 mr-1" />
+      {getMediaKind(playable) === 'video' ? 'Play video' : 'Play episode'}
+      {playable.duration && <span className="ml-1 text-muted-foreground">{formatDuration(playable.duration)}</span>}
+    </Button>
+  );
+};
+
+export const MediaAttachment: React.FC<MediaAttachmentProps> = ({ articleId, attachments: allAttachments, autoPlay = false }) => {
+  const mediaRef = useRef<HTMLAudioElement & HTMLVideoElement>(null);
+  const lastSavedRef = useRef(0);
+  const attachments = allAttachments
+    .filter(attachment => isWebUrl(attachment.url))
+    .map(attachment => attachment.thumbnail && !isWebUrl(attachment.thumbnail) ? { ...attachment, thumbnail: undefined } : attachment);
+
+  const playable = attachments.find(attachment => getMediaKind(attachment) !== null);
+  const others = attachments.filter(attachment => attachment !== playable && !attachment.mimeType.startsWith('image/'));
+  const kind = playable ? getMediaKind(playable) : null;
+
+  useEffect(() => {
+    const media = mediaRef.current;
+    if (!media) return;
+
+    let cancelled = false;
+    const restorePosition = async () => {
+      try {
+        const position = await storageService.getPlaybackPosition(articleId);
+        if (!cancelled && position > 0) {
+          media.currentTime = position;
+          lastSavedRef.current = position;
+        }
+      } catch (error) {
+        console.error('Failed to restore playback position:', error);
+      }
+    };
+
+    if (media.readyState >= 1) {
+      restorePosition();
+    } else {
+      media.addEventListener('loadedmetadata', restorePosition, { once: true });
+    }
+
+    return () => {
+      cancelled = true;
+      media.removeEventListener('loadedmetadata', restorePosition);
+    };
+  }, [articleId, playable?.url]);
+
+  const savePosition = (force = false) => {
+    const media = mediaRef.current;
+    if (!media) return;
+    if (!force && Math.abs(media.currentTime - lastSavedRef.current) < SAVE_INTERVAL) return;
+
+    lastSavedRef.current = media.currentTime;
+    // Finished episodes start over next time
+    const position = media.ended ? 0 : media.currentTime;
+    storageService.savePlaybackPosition(articleId, position).catch(error => {
+      console.error('Failed to save playback position:', error);
+    });
+  };
+
+  if (!playable && others.length === 0) return null;
+
+  return (
+    <div className="space-y-2 mb-3">
+      {playable && kind === 'video' && (
+        <video
+          ref={mediaRef}
+          src={playable.url}
+          poster={playable.thumbnail}
+          autoPlay={autoPlay}
+          controls
+          preload="metadata"
+          className="w-full max-h-80 rounded-md bg-black"
+          onTimeUpdate={() => savePosition()}
+          onPause={() => savePosition(true)}
+          onEnded={() => savePosition(true)}
+        />
+      )}
+      {playable && kind === 'audio' && (
+        <div className="flex items-center gap-3">
+          {playable.thumbnail && (
+            <img src={playable.thumbnail} alt="" className="h-12 w-12 rounded object-cover shrink-0" />
+          )}
+          <audio
+            ref={mediaRef}
+            src={playable.url}
+            autoPlay={autoPlay}
+            controls
+            preload="metadata"
+            className="w-full"
+            onTimeUpdate={() => savePosition()}
+            onPause={() => savePosition(true)}
+            onEnded={() => savePosition(true)}
+          />
+          {playable.duration && (
+            <span className="text-xs text-muted-foreground shrink-0">
+              {formatDuration(playable.duration)}
+            </span>
+          )}
+        </div>
+      )}
+      {others.map(attachment => (
+        <a
+          key={attachment.url}
+          href={attachment.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:underline"
+        >
+          <Paperclip className="h-3 w-3" />
+          <span className="truncate">{attachment.url.split('/').pop() || attachment.url}</span>
+          {attachment.mimeType && <span>({attachment.mimeType})</span>}
+        </a>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RefreshCw } from 'lucide-react';
+import { OPMLService, type OPMLEntry } from '@/services/opmlService';
+import type { Feed } from '@/services/storageService';
+
+type EntryStatus = 'new' | 'duplicate' | 'invalid';
+
+interface OPMLImportDialogProps {
+  entries: OPMLEntry[];
+  existingFeeds: Feed[];
+  isImporting: boolean;
+  onConfirm: (entries: OPMLEntry[]) => void;
+  onCancel: () => void;
+}
+
+export const OPMLImportDialog: React.FC<OPMLImportDialogProps> = ({
+  entries,
+  existingFeeds,
+  isImporting,
+  onConfirm,
+  onCancel
+}) => {
+  // Duplicates include feeds already subscribed to and repeats within the file itself
+  const seen = new Set(existingFeeds.map(feed => OPMLService.normalizeUrl(feed.url)));
+  const reviewed = entries.map(entry => {
+    let status: EntryStatus = 'new';
+    if (!OPMLService.isValidFeedUrl(entry.url)) {
+      status = 'invalid';
+    } else if (seen.has(OPMLService.normalizeUrl(entry.url))) {
+      status = 'duplicate';
+    } else {
+      seen.add(OPMLService.normalizeUrl(entry.url));
+    }
+    return { entry, status };
+  });
+
+  const toImport = reviewed.filter(item => item.status === 'new').map(item => item.entry);
+  const duplicateCount = reviewed.filter(item => item.status === 'duplicate').length;
+  const invalidCount = reviewed.filter(item => item.status === 'invalid').length;
+
+  return (
+    <Dialog open={entries.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Subscriptions</DialogTitle>
+          <DialogDescription>
+            {toImport.length} new, {duplicateCount} duplicate, {invalidCount} invalid
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto space-y-2">
+          {reviewed.map(({ entry, status }, index) => (
+            <div
+              key={`${entry.url}-${index}`}
+              className={`flex items-center gap-3 text-sm ${status === 'new' ? '' : 'opacity-60'}`}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">{entry.title}</div>
+                <div className="text-xs text-muted-foreground truncate">{entry.url}</div>
+              </div>
+              <Badge variant="outline" className="shrink-0">{entry.category}</Badge>
+              <Badge
+                variant={status === 'invalid' ? 'destructive' : status === 'duplicate' ? 'secondary' : 'default'}
+                className="shrink-0"
+              >
+                {status === 'new' ? 'New' : status === 'duplicate' ? 'Duplicate' : 'Invalid URL'}
+              </Badge>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(toImport)} disabled={isImporting || toImport.length === 0}>
+            {isImporting && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+            Import {toImport.length} Feed{toImport.length === 1 ? '' : 's'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
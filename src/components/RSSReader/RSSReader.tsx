@@ -1,28 +1,102 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Plus, RefreshCw, Send, Star, Calendar, Sparkles } from 'lucide-react';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { ToastAction } from '@/components/ui/toast';
+import { Plus, RefreshCw, Upload, Download, CheckCheck, Star, Filter } from 'lucide-react';
 import { RSSParser } from '@/services/rssParser';
-import { storageService, type Feed, type Article } from '@/services/storageService';
+import { FeedRefresher } from '@/services/feedRefresher';
+import { feedScheduler } from '@/services/feedScheduler';
+import { retentionService } from '@/services/retentionService';
+import { OPMLService, type OPMLEntry } from '@/services/opmlService';
+import { describeFetchError } from '@/services/fetchClient';
+import { FeedDiscovery, type DiscoveredFeed } from '@/services/feedDiscovery';
+import { isInCategory } from '@/services/feedCategories';
+import { ArticleDedup } from '@/services/articleDedup';
+import { ImageArchive } from '@/services/imageArchive';
+import { storageService, type Feed, type Article, type ArticleCounts, type ArticleCursor } from '@/services/storageService';
+import { AppSettings } from '@/services/appSettings';
 import { toast } from '@/hooks/use-toast';
+import { useReadOnScroll } from '@/hooks/useReadOnScroll';
+import { useVirtualList } from '@/hooks/useVirtualList';
+import { OPMLImportDialog } from './OPMLImportDialog';
+import { ArticleCard } from './ArticleCard';
+import { FeedDiscoveryDialog } from './FeedDiscoveryDialog';
+import { FeedSettingsDialog } from './FeedSettingsDialog';
+import { FeedFolderTree } from './FeedFolderTree';
+import { ReaderView } from './ReaderView';
+import { FeedRulesDialog } from './FeedRulesDialog';
 
 interface RSSReaderProps {
   onSendToEditor: (article: Article) => void;
   onSendToSummarizer: (article: Article) => void;
 }
 
+const PAGE_SIZE = 50;
+
+type ListQuery = Pick<Parameters<typeof storageService.getArticlePage>[0], 'index' | 'feedIds' | 'filter'>;
+
+// A list key is 'starred', 'all' or the comma-separated ids of the selected feeds, which are read
+// through their own index ranges
+const getListQuery = (listKey: string): ListQuery => {
+  if (listKey === 'starred') return { index: 'starredAt', filter: article => Boolean(article.feedId) };
+  if (listKey === 'all') return { index: 'publishDate', filter: article => Boolean(article.feedId) };
+  return { index: 'publishDate', feedIds: listKey ? listKey.split(',') : [] };
+};
+
 export const RSSReader: React.FC<RSSReaderProps> = ({ onSendToEditor, onSendToSummarizer }) => {
   const [feeds, setFeeds] = useState<Feed[]>([]);
-  const [articles, setArticles] = useState<Article[]>([]);
+  // Counts come from index keys and bulk actions query what they need, so the store is never scanned;
+  // the list itself is paged in from storage
+  const [counts, setCounts] = useState<ArticleCounts>({ unreadByFeed: {}, unread: 0, starred: 0 });
+  const [clusterFeedIds, setClusterFeedIds] = useState(new Map<string, string[]>());
+  const [articlesVersion, setArticlesVersion] = useState(0); // bumped when articles were added or removed
+  const [listArticles, setListArticles] = useState<Article[]>([]);
+  const [listCursor, setListCursor] = useState<ArticleCursor | null>(null);
   const [selectedFeed, setSelectedFeed] = useState<string | null>(null);
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [showStarred, setShowStarred] = useState(false);
   const [newFeedUrl, setNewFeedUrl] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [, setScheduleVersion] = useState(0);
+  const [opmlEntries, setOpmlEntries] = useState<OPMLEntry[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [discoveredFeeds, setDiscoveredFeeds] = useState<DiscoveredFeed[]>([]);
+  const [editingFeed, setEditingFeed] = useState<Feed | null>(null);
+  const [readingArticleId, setReadingArticleId] = useState<string | null>(null);
+  const [autoPlayArticleId, setAutoPlayArticleId] = useState<string | null>(null);
+  const [showRules, setShowRules] = useState(false);
+  const opmlInputRef = useRef<HTMLInputElement>(null);
+  const articleListRef = useRef<HTMLDivElement>(null);
+  const articlesRef = useRef<Article[]>([]);
+  const keptUnreadRef = useRef(new Set<string>());
+  const listQueryRef = useRef<ListQuery>({ index: 'publishDate', filter: article => Boolean(article.feedId) });
+  const listRequestRef = useRef(0);
+  const isLoadingMoreRef = useRef(false);
+  articlesRef.current = listArticles;
+
+  const feedsById = Object.fromEntries(feeds.map(feed => [feed.id, feed]));
 
   useEffect(() => {
     loadFeeds();
-    loadArticles();
+    loadCounts();
+  }, []);
+
+  useEffect(() => {
+    return feedScheduler.subscribe((results) => {
+      setScheduleVersion(version => version + 1);
+      if (results.length > 0) {
+        loadFeeds();
+        loadArticles();
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    return retentionService.subscribe(() => loadArticles());
   }, []);
 
   const loadFeeds = async () => {
@@ -34,10 +108,58 @@ export const RSSReader: React.FC<RSSReaderProps> = ({ onSendToEditor, onSendToSu
     }
   };
 
+  const loadCounts = async () => {
+    try {
+      setCounts(await storageService.getArticleCounts());
+    } catch (error) {
+      console.error('Failed to count articles:', error);
+    }
+  };
+
+  const loadList = async () => {
+    const request = ++listRequestRef.current;
+    try {
+      const page = await storageService.getArticlePage({ ...listQueryRef.current, limit: PAGE_SIZE });
+      if (request !== listRequestRef.current) return;
+      setListArticles(page.articles);
+      setListCursor(page.next);
+    } catch (error) {
+      console.error('Failed to load articles:', error);
+    }
+  };
+
+  const loadMoreArticles = async () => {
+    if (!listCursor || isLoadingMoreRef.current) return;
+    const request = listRequestRef.current;
+    isLoadingMoreRef.current = true;
+    try {
+      const page = await storageService.getArticlePage({ ...listQueryRef.current, limit: PAGE_SIZE, after: listCursor });
+      if (request !== listRequestRef.current) return;
+      setListArticles(prev => [...prev, ...page.articles]);
+      setListCursor(page.next);
+    } catch (error) {
+      console.error('Failed to load more articles:', error);
+    } finally {
+      isLoadingMoreRef.current = false;
+    }
+  };
+
+  // After articles were added or removed: counts and the list so far, without losing the scroll depth
   const loadArticles = async () => {
+    const request = ++listRequestRef.current;
     try {
-      const articlesData = await storageService.getArticles();
-      setArticles(articlesData.filter(article => article.feedId));
+      const [countsData, page] = await Promise.all([
+        storageService.getArticleCounts(),
+        storageService.getArticlePage({
+          ...listQueryRef.current,
+          limit: Math.max(PAGE_SIZE, articlesRef.current.length)
+        })
+      ]);
+      setCounts(countsData);
+      setArticlesVersion(version => version + 1);
+      if (request !== listRequestRef.current) return;
+      setListArticles(page.articles);
+      setListCursor(page.next);
     } catch (error) {
       console.error('Failed to load articles:', error);
     }
@@ -48,66 +170,454 @@ export const RSSReader: React.FC<RSSReaderProps> = ({ onSendToEditor, onSendToSu
     
     setIsLoading(true);
     try {
-      const feedData = await RSSParser.fetchAndParse(newFeedUrl);
-      
-      const feedId = await storageService.saveFeed({
-        url: newFeedUrl,
-        title: feedData.title,
-        description: feedData.description,
-        category: 'General',
-        lastUpdated: Date.now(),
-        updateInterval: 3600000 // 1 hour
+      // Website URLs are resolved to the feeds they advertise; a single match is subscribed right away
+      const discovered = await FeedDiscovery.discover(newFeedUrl);
+      if (discovered.length === 1) {
+        await subscribeToFeed(discovered[0]);
+      } else {
+        setDiscoveredFeeds(discovered);
+      }
+    } catch (error) {
+      console.error('Failed to add feed:', error);
+      const { title, description } = describeFetchError(error);
+      toast({
+        title: `Failed to add feed: ${title}`,
+        description,
+        variant: 'destructive',
+      });
+    }
+    setIsLoading(false);
+  };
+
+  const subscribeToFeed = async (candidate: DiscoveredFeed) => {
+    if (feeds.some(feed => OPMLService.normalizeUrl(feed.url) === OPMLService.normalizeUrl(candidate.url))) {
+      throw new Error(`You are already subscribed to ${candidate.title}`);
+    }
+
+    const feedData = candidate.feed || await RSSParser.fetchAndParse(candidate.url);
+    
+    const newFeed: Omit<Feed, 'id'> = {
+      url: candidate.url,
+      title: feedData.title,
+      description: feedData.description,
+      category: 'General',
+      siteUrl: FeedRefresher.resolveSiteUrl(feedData.link, candidate.url),
+      lastUpdated: Date.now(),
+      updateInterval: 3600000 // 1 hour
+    };
+    const feedId = await storageService.saveFeed(newFeed);
+
+    // Save articles from the feed
+    await FeedRefresher.saveNewItems({ ...newFeed, id: feedId }, feedData.items);
+
+    // The icon can take a few requests to find, so it shows up once resolved
+    FeedRefresher.fetchFavicon({ ...newFeed, id: feedId }, feedData.image)
+      .then(loadFeeds)
+      .catch(error => console.error('Failed to fetch feed icon:', error));
+
+    await loadFeeds();
+    await loadArticles();
+    setNewFeedUrl('');
+    setDiscoveredFeeds([]);
+    
+    toast({
+      title: 'Feed added successfully',
+      description: `Added ${feedData.title} with ${feedData.items.length} articles`,
+    });
+  };
+
+  const handleSelectDiscoveredFeed = async (candidate: DiscoveredFeed) => {
+    setIsLoading(true);
+    try {
+      await subscribeToFeed(candidate);
+    } catch (error) {
+      console.error('Failed to add feed:', error);
+      const { title, description } = describeFetchError(error);
+      toast({
+        title: `Failed to add feed: ${title}`,
+        description,
+        variant: 'destructive',
       });
+    }
+    setIsLoading(false);
+  };
 
-      // Save articles from the feed
-      for (const item of feedData.items) {
-        await storageService.saveArticle({
-          feedId,
-          title: item.title,
-          author: item.author,
-          publishDate: new Date(item.pubDate).getTime() || Date.now(),
-          content: item.description,
-          summary: item.description.substring(0, 200) + '...',
-          url: item.link,
-          isRead: false,
-          tags: []
+  const handleOpmlFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const entries = OPMLService.parse(await file.text());
+      if (entries.length === 0) {
+        toast({
+          title: 'No feeds found',
+          description: `${file.name} does not contain any feed subscriptions`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      setOpmlEntries(entries);
+    } catch (error) {
+      console.error('Failed to parse OPML:', error);
+      toast({
+        title: 'Failed to read OPML',
+        description: error instanceof Error ? error.message : 'The file could not be parsed',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const importOpmlEntries = async (entries: OPMLEntry[]) => {
+    setIsImporting(true);
+    try {
+      for (const entry of entries) {
+        // lastUpdated of 0 makes the scheduler fetch the new feed on its next tick
+        await storageService.saveFeed({
+          url: entry.url,
+          title: entry.title,
+          description: entry.description,
+          category: entry.category,
+          lastUpdated: 0,
+          updateInterval: 3600000 // 1 hour
         });
       }
 
       await loadFeeds();
-      await loadArticles();
-      setNewFeedUrl('');
-      
+      setOpmlEntries([]);
+
       toast({
-        title: 'Feed added successfully',
-        description: `Added ${feedData.title} with ${feedData.items.length} articles`,
+        title: 'Subscriptions imported',
+        description: `Added ${entries.length} feeds. Articles will be fetched in the background.`,
       });
     } catch (error) {
-      console.error('Failed to add feed:', error);
+      console.error('Failed to import OPML:', error);
       toast({
-        title: 'Failed to add feed',
-        description: 'Please check the URL and try again',
+        title: 'Import failed',
+        description: 'Some subscriptions could not be saved',
         variant: 'destructive',
       });
+      await loadFeeds();
     }
-    setIsLoading(false);
+    setIsImporting(false);
   };
 
-  const getFilteredArticles = () => {
-    if (!selectedFeed) return articles;
-    return articles.filter(article => article.feedId === selectedFeed);
+  const exportOpml = () => {
+    const opml = OPMLService.generate(feeds);
+    const blob = new Blob([opml], { type: 'text/x-opml' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `readlater-subscriptions-${new Date().toISOString().slice(0, 10)}.opml`;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
-  const getUnreadCount = (feedId: string) => {
-    return articles.filter(article => article.feedId === feedId && !article.isRead).length;
+  const refreshFeeds = async () => {
+    const feedsToRefresh = getSelectedFeeds();
+    if (feedsToRefresh.length === 0) return;
+
+    setIsRefreshing(true);
+    // Goes through the scheduler so a feed it is already polling isn't fetched twice; resets any
+    // backoff and reloads feeds/articles through the subscription above
+    const results = await feedScheduler.refreshNow(feedsToRefresh);
+    setIsRefreshing(false);
+
+    const failed = results.filter(result => result.error);
+    const updated = results.filter(result => !result.error && result.newArticles > 0);
+    const totalNew = updated.reduce((sum, result) => sum + result.newArticles, 0);
+
+    toast({
+      title: totalNew > 0 ? `${totalNew} new articles` : 'No new articles',
+      description: updated
+        .map(result => `${result.feedTitle}: ${result.newArticles} new articles`)
+        .join(', ') || 'All feeds are up to date',
+    });
+
+    if (failed.length > 0) {
+      toast({
+        title: `Failed to refresh ${failed.length} feed${failed.length === 1 ? '' : 's'}`,
+        description: failed.map(result => `${result.feedTitle}: ${result.error}`).join(', '),
+        variant: 'destructive',
+      });
+    }
   };
 
-  const markAsRead = async (article: Article) => {
-    const updatedArticle = { ...article, isRead: true };
-    await storageService.updateArticle(updatedArticle);
+  const updateFeedInterval = async (feed: Feed, updateInterval: number) => {
+    try {
+      await storageService.patchFeed(feed.id, { updateInterval });
+      await loadFeeds();
+    } catch (error) {
+      console.error('Failed to update feed interval:', error);
+      toast({
+        title: 'Failed to update feed',
+        description: 'The update interval could not be saved',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleUnsubscribed = async (feedId: string) => {
+    if (selectedFeed === feedId) selectFeed(null);
+    await loadFeeds();
     await loadArticles();
   };
 
+  const selectFeed = (feedId: string | null) => {
+    setSelectedFeed(feedId);
+    setSelectedCategory(null);
+    setShowStarred(false);
+  };
+
+  const selectCategory = (path: string) => {
+    setSelectedCategory(path);
+    setSelectedFeed(null);
+    setShowStarred(false);
+  };
+
+  const selectStarred = () => {
+    setShowStarred(true);
+    setSelectedFeed(null);
+    setSelectedCategory(null);
+  };
+
+  const getSelectedFeeds = () => {
+    if (selectedFeed) return feeds.filter(feed => feed.id === selectedFeed);
+    if (selectedCategory) return feeds.filter(feed => isInCategory(feed.category, selectedCategory));
+    return feeds;
+  };
+
+  const getUnreadInView = async () => {
+    if (!showStarred) return storageService.getUnreadArticles(getSelectedFeeds().map(feed => feed.id));
+    const starred = await storageService.getStarredArticles();
+    return starred.filter(article => article.feedId && !article.isRead);
+  };
+
+  // Changes whenever a different set of articles should be listed, including a folder gaining or losing feeds
+  const listKey = showStarred ? 'starred' : selectedFeed || selectedCategory
+    ? getSelectedFeeds().map(feed => feed.id).join(',')
+    : 'all';
+
+  useEffect(() => {
+    listQueryRef.current = getListQuery(listKey);
+    setListArticles([]);
+    setListCursor(null);
+    loadList();
+  }, [listKey]);
+
+  // Feeds carrying each listed story, looked up only for the clusters currently loaded; copies can
+  // arrive from feeds that aren't listed, so this also reloads after articles were added
+  const clusterKeys = [...new Set(listArticles.map(article => article.clusterId || article.id))].join(',');
+
+  useEffect(() => {
+    if (!clusterKeys) return;
+    const keys = clusterKeys.split(',');
+    const listed = articlesRef.current;
+    const listedIds = new Set(listed.map(article => article.id));
+    let cancelled = false;
+
+    storageService.findArticles({ ids: keys.filter(key => !listedIds.has(key)), clusterIds: keys })
+      .then(members => {
+        if (cancelled) return;
+        const byId = new Map([...listed, ...members].map(article => [article.id, article]));
+        const result = new Map<string, string[]>();
+        byId.forEach(article => {
+          if (!article.feedId) return;
+          const key = article.clusterId || article.id;
+          result.set(key, [...(result.get(key) || []), article.feedId]);
+        });
+        setClusterFeedIds(result);
+      })
+      .catch(error => console.error('Failed to load duplicate stories:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [clusterKeys, articlesVersion]);
+
+  const moveFeed = async (feedId: string, category: string) => {
+    const feed = feeds.find(candidate => candidate.id === feedId);
+    if (!feed) return;
+
+    try {
+      await storageService.patchFeed(feedId, { category });
+      await loadFeeds();
+    } catch (error) {
+      console.error('Failed to move feed:', error);
+      toast({
+        title: 'Failed to move feed',
+        description: `${feed.title} could not be moved to ${category}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Updates records in place instead of reloading the whole store
+  const patchArticles = async (articleIds: string[], patch: Partial<Article>) => {
+    if (articleIds.length === 0) return;
+
+    const updated = await storageService.patchArticles(articleIds, patch);
+    const byId = new Map(updated.map(article => [article.id, article]));
+    setListArticles(prev => prev.map(article => byId.get(article.id) || article));
+    await loadCounts();
+  };
+
+  const markArticlesAsRead = async (targets: Article[], description: string) => {
+    const unreadIds = targets.filter(article => !article.isRead).map(article => article.id);
+    if (unreadIds.length === 0) {
+      toast({ title: 'Nothing to mark', description: 'All matching articles are already read' });
+      return;
+    }
+
+    try {
+      await patchArticles(unreadIds, { isRead: true });
+      toast({
+        title: `Marked ${unreadIds.length} articles as read`,
+        description,
+        action: (
+          <ToastAction altText="Undo mark as read" onClick={() => patchArticles(unreadIds, { isRead: false })}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      console.error('Failed to mark articles as read:', error);
+      toast({
+        title: 'Failed to mark articles as read',
+        description: 'Please try again',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const markFolderAsRead = async (path: string) => {
+    const feedIds = feeds.filter(feed => isInCategory(feed.category, path)).map(feed => feed.id);
+    try {
+      markArticlesAsRead(await storageService.getUnreadArticles(feedIds), `Folder: ${path}`);
+    } catch (error) {
+      console.error('Failed to load unread articles:', error);
+    }
+  };
+
+  const markAllAsRead = async (olderThanDays?: number) => {
+    const cutoff = olderThanDays ? Date.now() - olderThanDays * 86400000 : Infinity;
+    const scope = selectedFeed ? feedsById[selectedFeed]?.title : showStarred ? 'Starred' : selectedCategory || 'All feeds';
+    try {
+      markArticlesAsRead(
+        (await getUnreadInView()).filter(article => article.publishDate < cutoff),
+        olderThanDays ? `${scope}, older than ${olderThanDays} days` : scope
+      );
+    } catch (error) {
+      console.error('Failed to load unread articles:', error);
+    }
+  };
+
+  // Copies of a story from other feeds share its read state
+  const getClusterIds = async (article: Article) => {
+    const key = article.clusterId || article.id;
+    const members = await storageService.findArticles({ ids: [key], clusterIds: [key] });
+    return members.length > 0 ? members.map(member => member.id) : [article.id];
+  };
+
+  const toggleRead = async (article: Article) => {
+    try {
+      if (article.isRead) {
+        // Don't let read-on-scroll immediately undo an explicit "mark unread"
+        keptUnreadRef.current.add(article.id);
+      } else {
+        keptUnreadRef.current.delete(article.id);
+      }
+      await patchArticles(await getClusterIds(article), { isRead: !article.isRead });
+    } catch (error) {
+      console.error('Failed to update read state:', error);
+    }
+  };
+
+  const toggleStar = async (article: Article) => {
+    try {
+      await patchArticles([article.id], { starredAt: article.starredAt ? undefined : Date.now() });
+      // Starring is how feed articles are kept, so that is when their images are saved
+      if (!article.starredAt && AppSettings.isImageArchiving()) await archiveImages(article);
+    } catch (error) {
+      console.error('Failed to update star:', error);
+      toast({
+        title: 'Failed to update star',
+        description: 'Please try again',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Keeps text fetched by the reader so search and summaries see the whole article
+  const saveFullContent = async (articleId: string, fullContent: string) => {
+    try {
+      await patchArticles([articleId], { fullContent });
+    } catch (error) {
+      console.error('Failed to save full article:', error);
+    }
+  };
+
+  // Downloads the article's images so it stays readable when the original site removes them
+  const archiveImages = async (article: Article) => {
+    try {
+      const content = await ImageArchive.archiveHTML(article.content, article.url);
+      const fullContent = article.fullContent ? await ImageArchive.archiveHTML(article.fullContent, article.url) : null;
+      const updated = await storageService.patchArticleWithImages(article.id, {
+        content: content.content,
+        ...(fullContent ? { fullContent: fullContent.content } : {})
+      }, [...content.images, ...(fullContent?.images || [])]);
+      if (!updated) throw new Error('The article was deleted while its images were downloading');
+      setListArticles(prev => prev.map(candidate => candidate.id === updated.id ? updated : candidate));
+
+      const archived = content.archived + (fullContent?.archived || 0);
+      const failed = content.failed + (fullContent?.failed || 0);
+      toast({
+        title: archived > 0 ? `Saved ${archived} image${archived === 1 ? '' : 's'} offline` : 'No images were saved',
+        description: failed > 0
+          ? `${failed} image${failed === 1 ? '' : 's'} could not be downloaded`
+          : 'This article no longer depends on the original site for its images',
+        variant: archived === 0 && failed > 0 ? 'destructive' : 'default',
+      });
+    } catch (error) {
+      console.error('Failed to archive images:', error);
+      toast({
+        title: 'Failed to save images',
+        description: 'Please try again',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const markAsRead = async (article: Article) => {
+    if (article.isRead) return;
+    try {
+      await patchArticles(await getClusterIds(article), { isRead: true });
+    } catch (error) {
+      console.error('Failed to mark article as read:', error);
+    }
+  };
+
+  const handleScrolledPast = (articleId: string) => {
+    const article = articlesRef.current.find(candidate => candidate.id === articleId);
+    if (article && !article.isRead && !keptUnreadRef.current.has(articleId)) {
+      markAsRead(article);
+    }
+  };
+
+  const openReader = (article: Article) => {
+    setReadingArticleId(article.id);
+    setAutoPlayArticleId(null);
+    markAsRead(article);
+    // Stay a page ahead so "next" in the reader doesn't stop at the end of what has been loaded
+    const index = visibleArticles.findIndex(candidate => candidate.id === article.id);
+    if (index >= visibleArticles.length - 2) loadMoreArticles();
+  };
+
+  const playArticle = (article: Article) => {
+    openReader(article);
+    setAutoPlayArticleId(article.id);
+  };
+
   const handleSendToEditor = (article: Article) => {
     markAsRead(article);
     onSendToEditor(article);
@@ -118,6 +628,26 @@ export const RSSReader: React.FC<RSSReaderProps> = ({ onSendToEditor, onSendToSu
     onSendToSummarizer(article);
   };
 
+  // Duplicates collapse into one card; previous/next in the reader follow the list as it is shown
+  const visibleArticles = ArticleDedup.groupClusters(listArticles).map(cluster => cluster.lead);
+  const readingIndex = visibleArticles.findIndex(article => article.id === readingArticleId);
+  const readingArticle = listArticles.find(article => article.id === readingArticleId) || null;
+  const visibleKeys = visibleArticles.map(article => article.id);
+
+  const virtualList = useVirtualList({
+    keys: visibleKeys,
+    scrollRef: articleListRef,
+    estimateSize: 180,
+    gap: 12,
+    onEndReached: loadMoreArticles
+  });
+  useReadOnScroll(
+    AppSettings.isReadOnScroll(),
+    visibleKeys,
+    virtualList.firstVisibleIndex,
+    (articleId) => handleScrolledPast(articleId)
+  );
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 h-[calc(100vh-12rem)]">
       {/* Feed Management */}
@@ -131,7 +661,7 @@ export const RSSReader: React.FC<RSSReaderProps> = ({ onSendToEditor, onSendToSu
           </CardHeader>
           <CardContent className="space-y-3">
             <Input
-              placeholder="RSS feed URL"
+              placeholder="RSS feed or website URL"
               value={newFeedUrl}
               onChange={(e) => setNewFeedUrl(e.target.value)}
             />
@@ -143,6 +673,43 @@ export const RSSReader: React.FC<RSSReaderProps> = ({ onSendToEditor, onSendToSu
               {isLoading && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
               Add Feed
             </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={() => opmlInputRef.current?.click()}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import OPML
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={exportOpml}
+                disabled={feeds.length === 0}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Export OPML
+              </Button>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={() => setShowRules(true)}
+            >
+              <Filter className="h-4 w-4 mr-2" />
+              Filter Rules
+            </Button>
+            <input
+              ref={opmlInputRef}
+              type="file"
+              accept=".opml,.xml,text/xml,text/x-opml"
+              className="hidden"
+              onChange={handleOpmlFile}
+            />
           </CardContent>
         </Card>
 
@@ -153,109 +720,157 @@ export const RSSReader: React.FC<RSSReaderProps> = ({ onSendToEditor, onSendToSu
           </CardHeader>
           <CardContent className="space-y-2">
             <Button
-              variant={selectedFeed === null ? "default" : "ghost"}
+              variant={selectedFeed === null && selectedCategory === null && !showStarred ? "default" : "ghost"}
               className="w-full justify-start"
-              onClick={() => setSelectedFeed(null)}
+              onClick={() => selectFeed(null)}
             >
               All Articles
               <Badge variant="secondary" className="ml-auto">
-                {articles.filter(a => !a.isRead).length}
+                {counts.unread}
               </Badge>
             </Button>
-            {feeds.map((feed) => (
-              <Button
-                key={feed.id}
-                variant={selectedFeed === feed.id ? "default" : "ghost"}
-                className="w-full justify-start"
-                onClick={() => setSelectedFeed(feed.id)}
-              >
-                <div className="flex-1 text-left truncate">
-                  {feed.title}
-                </div>
-                {getUnreadCount(feed.id) > 0 && (
-                  <Badge variant="secondary" className="ml-2">
-                    {getUnreadCount(feed.id)}
-                  </Badge>
-                )}
-              </Button>
-            ))}
+            <Button
+              variant={showStarred ? "default" : "ghost"}
+              className="w-full justify-start"
+              onClick={selectStarred}
+            >
+              <Star className="h-4 w-4 mr-2" />
+              Starred
+              <Badge variant="secondary" className="ml-auto">
+                {counts.starred}
+              </Badge>
+            </Button>
+            <FeedFolderTree
+              feeds={feeds}
+              unreadCounts={counts.unreadByFeed}
+              selectedFeed={selectedFeed}
+              selectedCategory={selectedCategory}
+              onSelectFeed={selectFeed}
+              onSelectCategory={selectCategory}
+              onEditFeed={setEditingFeed}
+              onChangeInterval={updateFeedInterval}
+              onMoveFeed={moveFeed}
+              onMarkFolderRead={markFolderAsRead}
+            />
           </CardContent>
         </Card>
       </div>
 
       {/* Articles List */}
-      <div className="lg:col-span-2 space-y-4 overflow-y-auto">
+      <div ref={articleListRef} className="lg:col-span-2 space-y-4 overflow-y-auto">
         <div className="flex items-center justify-between">
           <h2 className="text-xl font-semibold">
-            {selectedFeed ? feeds.find(f => f.id === selectedFeed)?.title : 'All Articles'}
+            {selectedFeed ? feeds.find(f => f.id === selectedFeed)?.title : showStarred ? 'Starred' : selectedCategory || 'All Articles'}
           </h2>
-          <Button variant="outline" size="sm">
-            <RefreshCw className="h-4 w-4 mr-2" />
-            Refresh
-          </Button>
+          <div className="flex gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={listArticles.length === 0}>
+                  <CheckCheck className="h-4 w-4 mr-2" />
+                  Mark All Read
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => markAllAsRead()}>All articles</DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => markAllAsRead(1)}>Older than 1 day</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => markAllAsRead(7)}>Older than 7 days</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => markAllAsRead(30)}>Older than 30 days</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={refreshFeeds}
+              disabled={isRefreshing || feeds.length === 0}
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
         </div>
 
-        {getFilteredArticles().length === 0 ? (
+        {visibleArticles.length === 0 ? (
           <Card>
             <CardContent className="py-8 text-center text-muted-foreground">
-              {feeds.length === 0 ? 'Add your first RSS feed to get started' : 'No articles found'}
+              {feeds.length === 0 ? 'Add your first RSS feed to get started' : showStarred ? 'No starred articles yet' : 'No articles found'}
             </CardContent>
           </Card>
         ) : (
-          <div className="space-y-3">
-            {getFilteredArticles().map((article) => (
-              <Card key={article.id} className={article.isRead ? 'opacity-60' : ''}>
-                <CardContent className="pt-4">
-                  <div className="flex items-start justify-between gap-4">
-                    <div className="flex-1">
-                      <h3 className="font-medium line-clamp-2 mb-2">
-                        {article.title}
-                      </h3>
-                      <p className="text-sm text-muted-foreground line-clamp-3 mb-3">
-                        {article.summary}
-                      </p>
-                      <div className="flex items-center gap-3 text-xs text-muted-foreground">
-                        {article.author && (
-                          <span>by {article.author}</span>
-                        )}
-                        <span className="flex items-center gap-1">
-                          <Calendar className="h-3 w-3" />
-                          {new Date(article.publishDate).toLocaleDateString()}
-                        </span>
-                      </div>
-                    </div>
-                    <div className="flex flex-col gap-2">
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleSendToEditor(article)}
-                      >
-                        <Send className="h-4 w-4 mr-1" />
-                        Edit
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleSendToSummarizer(article)}
-                      >
-                        <Sparkles className="h-4 w-4 mr-1" />
-                        Summarize
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        onClick={() => window.open(article.url, '_blank')}
-                      >
-                        View
-                      </Button>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+          <div ref={virtualList.listRef} className="relative" style={{ height: virtualList.totalSize }}>
+            {virtualList.items.map(({ index, start }) => {
+              const article = visibleArticles[index];
+              return (
+                <div
+                  key={article.id}
+                  ref={virtualList.measure}
+                  data-virtual-key={article.id}
+                  className="absolute inset-x-0"
+                  style={{ top: start }}
+                >
+                  <ArticleCard
+                    article={article}
+                    feed={article.feedId ? feedsById[article.feedId] : undefined}
+                    alsoIn={(clusterFeedIds.get(article.clusterId || article.id) || [])
+                      .filter(feedId => feedId !== article.feedId && feedsById[feedId])
+                      .map(feedId => feedsById[feedId])}
+                    onView={openReader}
+                    onPlay={playArticle}
+                    onSendToEditor={handleSendToEditor}
+                    onSendToSummarizer={handleSendToSummarizer}
+                    onToggleRead={toggleRead}
+                    onToggleStar={toggleStar}
+                  />
+                </div>
+              );
+            })}
           </div>
         )}
       </div>
+
+      <OPMLImportDialog
+        entries={opmlEntries}
+        existingFeeds={feeds}
+        isImporting={isImporting}
+        onConfirm={importOpmlEntries}
+        onCancel={() => setOpmlEntries([])}
+      />
+
+      <FeedDiscoveryDialog
+        pageUrl={newFeedUrl}
+        feeds={discoveredFeeds}
+        isLoading={isLoading}
+        onSelect={handleSelectDiscoveredFeed}
+        onCancel={() => setDiscoveredFeeds([])}
+      />
+
+      <ReaderView
+        article={readingArticle}
+        feed={readingArticle?.feedId ? feedsById[readingArticle.feedId] : undefined}
+        hasPrevious={readingIndex > 0}
+        hasNext={readingIndex >= 0 && readingIndex < visibleArticles.length - 1}
+        onPrevious={() => openReader(visibleArticles[readingIndex - 1])}
+        onNext={() => openReader(visibleArticles[readingIndex + 1])}
+        onClose={() => setReadingArticleId(null)}
+        onToggleStar={toggleStar}
+        onFullContent={saveFullContent}
+        onArchiveImages={archiveImages}
+        autoPlay={readingArticleId !== null && readingArticleId === autoPlayArticleId}
+      />
+
+      <FeedRulesDialog
+        open={showRules}
+        feeds={feeds}
+        onClose={() => setShowRules(false)}
+      />
+
+      <FeedSettingsDialog
+        feed={editingFeed}
+        categories={[...new Set(feeds.map(feed => feed.category))]}
+        onClose={() => setEditingFeed(null)}
+        onChanged={loadFeeds}
+        onUnsubscribed={handleUnsubscribed}
+      />
     </div>
   );
 };
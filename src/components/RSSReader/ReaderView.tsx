@@ -0,0 +1,263 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { ChevronLeft, ChevronRight, Clock, ExternalLink, FileDown, ImageDown, Minus, Plus, RefreshCw, Star } from 'lucide-react';
+import type { Article, Feed } from '@/services/storageService';
+import { AppSettings, type ReaderSettings } from '@/services/appSettings';
+import { ArticleContent } from '@/services/articleContent';
+import { FeedRefresher } from '@/services/feedRefresher';
+import { describeFetchError } from '@/services/fetchClient';
+import { useArchivedImages } from '@/hooks/useArchivedImages';
+import { MediaAttachment } from './MediaAttachment';
+
+interface ReaderViewProps {
+  article: Article | null;
+  feed?: Feed;
+  hasPrevious: boolean;
+  hasNext: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+  onClose: () => void;
+  onToggleStar: (article: Article) => void;
+  onFullContent: (articleId: string, html: string) => void;
+  onArchiveImages: (article: Article) => Promise<void>;
+  autoPlay?: boolean; // start the article's media, when opened from a card's play button
+}
+
+const WIDTHS: Record<ReaderSettings['width'], string> = {
+  narrow: 'max-w-xl',
+  medium: 'max-w-2xl',
+  wide: 'max-w-4xl'
+};
+
+const MIN_FONT_SIZE = 14;
+const MAX_FONT_SIZE = 26;
+
+export const ReaderView: React.FC<ReaderViewProps> = ({
+  article,
+  feed,
+  hasPrevious,
+  hasNext,
+  onPrevious,
+  onNext,
+  onClose,
+  onToggleStar,
+  onFullContent,
+  onArchiveImages,
+  autoPlay = false
+}) => {
+  const [settings, setSettings] = useState<ReaderSettings>(AppSettings.getReaderSettings());
+  const [isFetching, setIsFetching] = useState(false);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+  const [requestedId, setRequestedId] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const onFullContentRef = useRef(onFullContent);
+  onFullContentRef.current = onFullContent;
+
+  const isExcerpt = article ? ArticleContent.isExcerpt(article.content) : false;
+  const articleId = article?.id;
+  const articleUrl = article?.url;
+  // Excerpts are replaced by the original page automatically, anything else only when asked for
+  const shouldFetch = Boolean(article && !article.fullContent && (isExcerpt || requestedId === article.id));
+
+  useEffect(() => {
+    setFetchError(null);
+    setIsFetching(false);
+    if (!articleId || !articleUrl || !shouldFetch) return;
+
+    let cancelled = false;
+    setIsFetching(true);
+
+    FeedRefresher.fetchFullContent(articleUrl)
+      .then(html => {
+        if (!cancelled) onFullContentRef.current(articleId, html);
+      })
+      .catch(error => {
+        console.error('Failed to fetch full article:', error);
+        if (!cancelled) setFetchError(describeFetchError(error).description);
+      })
+      .finally(() => {
+        if (!cancelled) setIsFetching(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [articleId, articleUrl, shouldFetch, attempt]);
+
+  // Arrow keys and j/k step through the list while the reader is open
+  useEffect(() => {
+    if (!article) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      if ((event.key === 'ArrowRight' || event.key === 'j') && hasNext) onNext();
+      if ((event.key === 'ArrowLeft' || event.key === 'k') && hasPrevious) onPrevious();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [article, hasNext, hasPrevious, onNext, onPrevious]);
+
+  const updateSettings = (changes: Partial<ReaderSettings>) => {
+    const updated = { ...settings, ...changes };
+    setSettings(updated);
+    AppSettings.saveReaderSettings(updated);
+  };
+
+  const content = article ? article.fullContent || article.content : '';
+  const sanitized = useMemo(() => ArticleContent.sanitize(content, articleUrl), [content, articleUrl]);
+  const html = useArchivedImages(sanitized);
+  // Images that still point at the original site
+  const hasRemoteImages = /<img\b[^>]*\ssrc="https?:/i.test(sanitized);
+
+  const archiveImages = async (target: Article) => {
+    setIsArchiving(true);
+    await onArchiveImages(target);
+    setIsArchiving(false);
+  };
+
+  return (
+    <Sheet open={article !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-4xl overflow-y-auto">
+        {article && (
+          <div className={`mx-auto space-y-6 ${WIDTHS[settings.width]}`}>
+            <div className="flex flex-wrap items-center gap-2 pr-8">
+              <Button variant="outline" size="sm" onClick={onPrevious} disabled={!hasPrevious} title="Previous (k)">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={onNext} disabled={!hasNext} title="Next (j)">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <div className="flex items-center gap-1 ml-auto">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Smaller text"
+                  disabled={settings.fontSize <= MIN_FONT_SIZE}
+                  onClick={() => updateSettings({ fontSize: settings.fontSize - 1 })}
+                >
+                  <Minus className="h-4 w-4" />
+                </Button>
+                <span className="text-xs text-muted-foreground w-8 text-center">{settings.fontSize}px</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Larger text"
+                  disabled={settings.fontSize >= MAX_FONT_SIZE}
+                  onClick={() => updateSettings({ fontSize: settings.fontSize + 1 })}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={settings.fontFamily}
+                onValueChange={(value) => value && updateSettings({ fontFamily: value as ReaderSettings['fontFamily'] })}
+              >
+                <ToggleGroupItem value="serif" className="font-serif">Serif</ToggleGroupItem>
+                <ToggleGroupItem value="sans" className="font-sans">Sans</ToggleGroupItem>
+              </ToggleGroup>
+              <Select
+                value={settings.width}
+                onValueChange={(value) => updateSettings({ width: value as ReaderSettings['width'] })}
+              >
+                <SelectTrigger className="w-28 h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="narrow">Narrow</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="wide">Wide</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <SheetHeader className="text-left space-y-2">
+              <SheetTitle className="text-2xl leading-tight">{article.title}</SheetTitle>
+              <SheetDescription className="flex flex-wrap items-center gap-3">
+                {feed && (
+                  <span className="flex items-center gap-1">
+                    {feed.favicon && <img src={feed.favicon} alt="" className="h-3 w-3 rounded-sm" />}
+                    {feed.title}
+                  </span>
+                )}
+                {article.author && <span>by {article.author}</span>}
+                <span>{new Date(article.publishDate).toLocaleDateString()}</span>
+                <span className="flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  {ArticleContent.getReadingTime(content)} min read
+                </span>
+              </SheetDescription>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => onToggleStar(article)}>
+                  <Star className={`h-4 w-4 mr-1 ${article.starredAt ? 'fill-yellow-400 text-yellow-400' : ''}`} />
+                  {article.starredAt ? 'Starred' : 'Star'}
+                </Button>
+                {article.url && !article.fullContent && !isExcerpt && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isFetching}
+                    onClick={() => requestedId === article.id ? setAttempt(attempt + 1) : setRequestedId(article.id)}
+                  >
+                    <FileDown className="h-4 w-4 mr-1" />
+                    Fetch Full Text
+                  </Button>
+                )}
+                {hasRemoteImages && (
+                  <Button variant="ghost" size="sm" disabled={isArchiving} onClick={() => archiveImages(article)}>
+                    {isArchiving
+                      ? <RefreshCw className="h-4 w-4 mr-1 animate-spin" />
+                      : <ImageDown className="h-4 w-4 mr-1" />}
+                    Save Images Offline
+                  </Button>
+                )}
+                {article.url && (
+                  <Button variant="ghost" size="sm" onClick={() => window.open(article.url, '_blank')}>
+                    <ExternalLink className="h-4 w-4 mr-1" />
+                    Open Original
+                  </Button>
+                )}
+              </div>
+            </SheetHeader>
+
+            {!article.fullContent && (isFetching || fetchError) && (
+              <div className="rounded-md border p-3 text-sm text-muted-foreground flex items-center justify-between gap-2">
+                {isFetching ? (
+                  <span className="flex items-center gap-2">
+                    <RefreshCw className="h-4 w-4 animate-spin" />
+                    Loading the full article from the original page...
+                  </span>
+                ) : (
+                  <>
+                    <span>Showing the feed's text. {fetchError}</span>
+                    <Button variant="outline" size="sm" onClick={() => setAttempt(attempt + 1)}>
+                      Retry
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+
+            {article.attachments && article.attachments.length > 0 && (
+              <MediaAttachment articleId={article.id} attachments={article.attachments} autoPlay={autoPlay} />
+            )}
+
+            <div
+              className={`prose dark:prose-invert max-w-none ${settings.fontFamily === 'serif' ? 'font-serif' : 'font-sans'}`}
+              style={{ fontSize: `${settings.fontSize}px` }}
+              dangerouslySetInnerHTML={{ __html: html }}
+            />
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -4,14 +4,21 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Link, Download, Send, Save, RefreshCw, Sparkles } from 'lucide-react';
-import { URLToMarkdownConverter } from '@/services/urlToMarkdown';
+import { URLToMarkdownConverter, type PageMetadata } from '@/services/urlToMarkdown';
+import { describeFetchError } from '@/services/fetchClient';
+import { ImageArchive } from '@/services/imageArchive';
+import { PageSnapshotBuilder } from '@/services/pageSnapshot';
+import { AppSettings } from '@/services/appSettings';
 import { toast } from '@/hooks/use-toast';
-import type { Article } from '@/services/storageService';
+import { formatBytes } from '@/lib/utils';
+import type { Article, ArchivedImage, PageSnapshot } from '@/services/storageService';
 
 interface URLFetcherProps {
   onSendToEditor: (article: Article) => void;
-  onSaveToKnowledge: (article: Article) => void;
+  onSaveToKnowledge: (article: Article, snapshot?: Omit<PageSnapshot, 'id'>, images?: ArchivedImage[]) => Promise<void>;
   onSendToSummarizer: (article: Article) => void;
 }
 
@@ -22,9 +29,13 @@ export const URLFetcher: React.FC<URLFetcherProps> = ({ onSendToEditor, onSaveTo
   const [convertedContent, setConvertedContent] = useState<{
     markdown: string;
     title: string;
-    metadata: any;
+    metadata: PageMetadata;
+    html?: string; // the page as fetched, kept for its snapshot
   } | null>(null);
   const [editableMarkdown, setEditableMarkdown] = useState('');
+  const [archiveImages, setArchiveImages] = useState(AppSettings.isImageArchiving());
+  const [saveSnapshot, setSaveSnapshot] = useState(AppSettings.isPageSnapshots());
+  const [isSaving, setIsSaving] = useState(false);
 
   const addUrl = () => {
     if (url && !urls.includes(url)) {
@@ -50,9 +61,10 @@ export const URLFetcher: React.FC<URLFetcherProps> = ({ onSendToEditor, onSaveTo
       });
     } catch (error) {
       console.error('Failed to convert URL:', error);
+      const { title, description } = describeFetchError(error);
       toast({
-        title: 'Conversion failed',
-        description: 'Please check the URL and try again',
+        title: `Conversion failed: ${title}`,
+        description,
         variant: 'destructive',
       });
     }
@@ -64,6 +76,7 @@ export const URLFetcher: React.FC<URLFetcherProps> = ({ onSendToEditor, onSaveTo
     
     setIsLoading(true);
     const results = [];
+    const failures: string[] = [];
     
     for (const url of urls) {
       try {
@@ -71,6 +84,7 @@ export const URLFetcher: React.FC<URLFetcherProps> = ({ onSendToEditor, onSaveTo
         results.push(result);
       } catch (error) {
         console.error(`Failed to convert ${url}:`, error);
+        failures.push(describeFetchError(error).description);
       }
     }
     
@@ -96,6 +110,14 @@ export const URLFetcher: React.FC<URLFetcherProps> = ({ onSendToEditor, onSaveTo
         description: `Successfully converted ${results.length} out of ${urls.length} URLs`,
       });
     }
+
+    if (failures.length > 0) {
+      toast({
+        title: `${failures.length} URL${failures.length === 1 ? '' : 's'} failed to convert`,
+        description: failures.join(' '),
+        variant: 'destructive',
+      });
+    }
     
     setIsLoading(false);
   };
@@ -107,7 +129,7 @@ export const URLFetcher: React.FC<URLFetcherProps> = ({ onSendToEditor, onSaveTo
       id: `url_${Date.now()}`,
       title: convertedContent.title,
       author: convertedContent.metadata.author || 'Unknown',
-      publishDate: Date.now(),
+      publishDate: convertedContent.metadata.publishDate || Date.now(),
       content: editableMarkdown,
       summary: editableMarkdown.substring(0, 200) + '...',
       url: convertedContent.metadata.url || '',
@@ -150,21 +172,70 @@ export const URLFetcher: React.FC<URLFetcherProps> = ({ onSendToEditor, onSaveTo
     }
   };
 
-  const handleSaveToKnowledge = () => {
+  const toggleArchiveImages = (enabled: boolean) => {
+    setArchiveImages(enabled);
+    AppSettings.setImageArchiving(enabled);
+  };
+
+  const toggleSaveSnapshot = (enabled: boolean) => {
+    setSaveSnapshot(enabled);
+    AppSettings.setPageSnapshots(enabled);
+  };
+
+  // Batch conversions have no single page to snapshot
+  const canSnapshot = Boolean(convertedContent?.metadata.url && convertedContent.html);
+
+  const handleSaveToKnowledge = async () => {
+    setIsSaving(true);
     try {
       const article = createArticleFromContent();
-      onSaveToKnowledge(article);
+      let snapshot: Omit<PageSnapshot, 'id'> | undefined;
+      if (saveSnapshot && canSnapshot && convertedContent?.html) {
+        try {
+          // Built from the HTML that was converted, so the snapshot matches the saved article
+          const built = await PageSnapshotBuilder.build(convertedContent.html, article.url);
+          snapshot = { url: article.url, html: built.html, size: built.size, savedAt: Date.now() };
+        } catch (error) {
+          // The Markdown is still worth keeping without the snapshot
+          console.error('Failed to capture page snapshot:', error);
+          const { title, description } = describeFetchError(error);
+          toast({
+            title: `Snapshot failed: ${title}`,
+            description,
+            variant: 'destructive',
+          });
+        }
+      }
+
+      let failedImages = 0;
+      let images: ArchivedImage[] = [];
+      if (archiveImages) {
+        const result = await ImageArchive.archiveMarkdown(article.content, article.url || undefined);
+        article.content = result.content;
+        failedImages = result.failed;
+        images = result.images;
+      }
+      await onSaveToKnowledge(article, snapshot, images);
+      // The editor works on the archived copy from now on
+      if (archiveImages) setEditableMarkdown(article.content);
       toast({
         title: 'Saved to knowledge store',
-        description: 'Article has been saved to your knowledge base',
+        description: [
+          failedImages > 0
+            ? `Article saved, but ${failedImages} image${failedImages === 1 ? '' : 's'} could not be downloaded.`
+            : 'Article has been saved to your knowledge base.',
+          snapshot && `Page snapshot: ${formatBytes(snapshot.size)}.`
+        ].filter(Boolean).join(' '),
       });
     } catch (error) {
+      console.error('Failed to save article:', error);
       toast({
         title: 'Error',
         description: 'Failed to save to knowledge store',
         variant: 'destructive',
       });
     }
+    setIsSaving(false);
   };
 
   return (
@@ -287,8 +358,8 @@ export const URLFetcher: React.FC<URLFetcherProps> = ({ onSendToEditor, onSaveTo
                       <Sparkles className="h-4 w-4 mr-1" />
                       Summarize
                     </Button>
-                    <Button size="sm" onClick={handleSaveToKnowledge}>
-                      <Save className="h-4 w-4 mr-1" />
+                    <Button size="sm" onClick={handleSaveToKnowledge} disabled={isSaving}>
+                      {isSaving ? <RefreshCw className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
                       Save
                     </Button>
                   </div>
@@ -303,6 +374,15 @@ export const URLFetcher: React.FC<URLFetcherProps> = ({ onSendToEditor, onSaveTo
                         by {convertedContent.metadata.author}
                       </p>
                     )}
+                    {(convertedContent.metadata.siteName || convertedContent.metadata.publishDate) && (
+                      <p className="text-sm text-muted-foreground">
+                        {[
+                          convertedContent.metadata.siteName,
+                          convertedContent.metadata.publishDate &&
+                            new Date(convertedContent.metadata.publishDate).toLocaleDateString()
+                        ].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
                   </div>
                   
                   <div className="flex gap-2">
@@ -313,6 +393,22 @@ export const URLFetcher: React.FC<URLFetcherProps> = ({ onSendToEditor, onSaveTo
                       {convertedContent.markdown.length} chars
                     </Badge>
                   </div>
+
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="archive-images" className="text-sm font-normal">
+                      Save images offline
+                    </Label>
+                    <Switch id="archive-images" checked={archiveImages} onCheckedChange={toggleArchiveImages} />
+                  </div>
+
+                  {canSnapshot && (
+                    <div className="flex items-center justify-between gap-4">
+                      <Label htmlFor="save-snapshot" className="text-sm font-normal">
+                        Save page snapshot
+                      </Label>
+                      <Switch id="save-snapshot" checked={saveSnapshot} onCheckedChange={toggleSaveSnapshot} />
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
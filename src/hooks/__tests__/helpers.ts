@@ -0,0 +1,48 @@
+import { act, createElement } from 'react';
+import { createRoot } from 'react-dom/client';
+
+// Lets React flush effects inside act() without warning
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+// Mounts a hook in a component that renders nothing; rerender passes new props through the same instance
+export const renderHook = <Props, Result>(hook: (props: Props) => Result, initialProps: Props) => {
+  const result = { current: undefined as Result };
+  const Probe = ({ props }: { props: Props }) => {
+    result.current = hook(props);
+    return null;
+  };
+  const root = createRoot(document.createElement('div'));
+  const render = (props: Props) => act(() => root.render(createElement(Probe, { props })));
+
+  render(initialProps);
+  return {
+    result,
+    rerender: render,
+    unmount: () => act(() => root.unmount())
+  };
+};
+
+// jsdom doesn't lay anything out, so the scroll container reports the offsets a browser would: the list
+// sits `listOffset` pixels below the top of the container's content and moves up as it scrolls
+export const createScrollContainer = (clientHeight: number, listOffset = 0) => {
+  const scroll = document.createElement('div');
+  const list = document.createElement('div');
+  scroll.appendChild(list);
+  document.body.appendChild(scroll);
+
+  let scrollTop = 0;
+  Object.defineProperty(scroll, 'clientHeight', { value: clientHeight });
+  Object.defineProperty(scroll, 'scrollTop', { get: () => scrollTop });
+  scroll.getBoundingClientRect = () => ({ top: 0, height: clientHeight }) as DOMRect;
+  list.getBoundingClientRect = () => ({ top: listOffset - scrollTop }) as DOMRect;
+
+  return {
+    scroll,
+    list,
+    scrollTo: (top: number) => act(() => {
+      scrollTop = top;
+      scroll.dispatchEvent(new Event('scroll'));
+    }),
+    remove: () => scroll.remove()
+  };
+};
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { MutableRefObject } from 'react';
+import { useReadOnScroll } from '../useReadOnScroll';
+import { useVirtualList } from '../useVirtualList';
+import { createScrollContainer, renderHook } from './helpers';
+
+const keys = Array.from({ length: 50 }, (_, index) => `article_${index}`);
+
+interface Props {
+  enabled: boolean;
+  keys: string[];
+  firstVisibleIndex: number;
+}
+
+const renderReadOnScroll = (initialProps: Props) => {
+  const onScrolledPast = vi.fn();
+  const hook = renderHook(
+    (props: Props) => useReadOnScroll(props.enabled, props.keys, props.firstVisibleIndex, onScrolledPast),
+    initialProps
+  );
+  return { ...hook, onScrolledPast };
+};
+
+const reported = (onScrolledPast: ReturnType<typeof vi.fn>) => onScrolledPast.mock.calls.map(call => call[0]);
+
+describe('useReadOnScroll', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports nothing for the rows visible when the list first renders', () => {
+    const { onScrolledPast, unmount } = renderReadOnScroll({ enabled: true, keys, firstVisibleIndex: 3 });
+
+    expect(onScrolledPast).not.toHaveBeenCalled();
+    unmount();
+  });
+
+  it('reports every row between the previous and the new first visible row, however far the jump', () => {
+    const { onScrolledPast, rerender, unmount } = renderReadOnScroll({ enabled: true, keys, firstVisibleIndex: 0 });
+
+    rerender({ enabled: true, keys, firstVisibleIndex: 1 });
+    expect(reported(onScrolledPast)).toEqual(['article_0']);
+
+    rerender({ enabled: true, keys, firstVisibleIndex: 30 });
+    expect(reported(onScrolledPast)).toEqual(keys.slice(0, 30));
+    unmount();
+  });
+
+  it('reports nothing when scrolling back up or while disabled', () => {
+    const { onScrolledPast, rerender, unmount } = renderReadOnScroll({ enabled: true, keys, firstVisibleIndex: 10 });
+
+    rerender({ enabled: true, keys, firstVisibleIndex: 4 });
+    rerender({ enabled: false, keys, firstVisibleIndex: 12 });
+    expect(onScrolledPast).not.toHaveBeenCalled();
+
+    // The position moved on while disabled, so only rows passed since enabling count
+    rerender({ enabled: true, keys, firstVisibleIndex: 13 });
+    expect(reported(onScrolledPast)).toEqual(['article_12']);
+    unmount();
+  });
+
+  it('follows rows by key when articles are added above', () => {
+    const { onScrolledPast, rerender, unmount } = renderReadOnScroll({ enabled: true, keys, firstVisibleIndex: 2 });
+    const withNewArticles = ['article_new_1', 'article_new_2', ...keys];
+
+    rerender({ enabled: true, keys: withNewArticles, firstVisibleIndex: 5 });
+    expect(reported(onScrolledPast)).toEqual(['article_2']);
+    unmount();
+  });
+
+  it('marks rows skipped by a fast scroll of a virtual list, though they were never rendered', () => {
+    vi.stubGlobal('ResizeObserver', class {
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    });
+    const container = createScrollContainer(300);
+    const scrollRef = { current: container.scroll };
+    const onScrolledPast = vi.fn();
+    const { unmount } = renderHook(() => {
+      const virtual = useVirtualList({ keys, scrollRef, estimateSize: 100, overscan: 0 });
+      (virtual.listRef as MutableRefObject<HTMLDivElement | null>).current = container.list as HTMLDivElement;
+      useReadOnScroll(true, keys, virtual.firstVisibleIndex, onScrolledPast);
+    }, {});
+
+    container.scrollTo(150);
+    expect(reported(onScrolledPast)).toEqual(['article_0']);
+
+    container.scrollTo(2550);
+    expect(reported(onScrolledPast)).toEqual(keys.slice(0, 25));
+    unmount();
+    container.remove();
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MutableRefObject } from 'react';
+import { useVirtualList } from '../useVirtualList';
+import { createScrollContainer, renderHook } from './helpers';
+
+const keys = Array.from({ length: 50 }, (_, index) => `article_${index}`);
+
+// Rows are 100px with no gap and nothing rendered beyond the viewport, which is three rows tall
+const renderList = (options: { listOffset?: number; onEndReached?: () => void } = {}) => {
+  const container = createScrollContainer(300, options.listOffset);
+  const scrollRef = { current: container.scroll };
+  const hook = renderHook((props: { keys: string[] }) => {
+    const virtual = useVirtualList({
+      keys: props.keys,
+      scrollRef,
+      estimateSize: 100,
+      overscan: 0,
+      onEndReached: options.onEndReached
+    });
+    (virtual.listRef as MutableRefObject<HTMLDivElement | null>).current = container.list as HTMLDivElement;
+    return virtual;
+  }, { keys });
+  return { ...hook, container };
+};
+
+const renderedIndexes = (items: { index: number }[]) => items.map(item => item.index);
+
+describe('useVirtualList', () => {
+  let cleanUp: (() => void)[] = [];
+
+  beforeEach(() => {
+    vi.stubGlobal('ResizeObserver', class {
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    });
+  });
+
+  afterEach(() => {
+    cleanUp.forEach(clean => clean());
+    cleanUp = [];
+    vi.unstubAllGlobals();
+  });
+
+  const mount = (options?: Parameters<typeof renderList>[0]) => {
+    const rendered = renderList(options);
+    cleanUp.push(rendered.unmount, rendered.container.remove);
+    return rendered;
+  };
+
+  it('renders only the rows in the viewport and sizes the list for all of them', () => {
+    const { result } = mount();
+
+    expect(result.current.firstVisibleIndex).toBe(0);
+    expect(renderedIndexes(result.current.items)).toEqual([0, 1, 2, 3]);
+    expect(result.current.items[2].start).toBe(200);
+    expect(result.current.totalSize).toBe(5000);
+  });
+
+  it('takes the first row still partly in view as the first visible one', () => {
+    const { result, container } = mount();
+
+    container.scrollTo(250);
+    expect(result.current.firstVisibleIndex).toBe(2);
+
+    // A row ending exactly at the top edge has left the view
+    container.scrollTo(300);
+    expect(result.current.firstVisibleIndex).toBe(3);
+  });
+
+  it('measures the viewport from the top of the list when a header sits above it', () => {
+    const { result, container } = mount({ listOffset: 120 });
+    expect(result.current.firstVisibleIndex).toBe(0);
+
+    container.scrollTo(220);
+    expect(result.current.firstVisibleIndex).toBe(1);
+  });
+
+  it('jumps straight to the rows at the new position on a fast scroll', () => {
+    const { result, container } = mount();
+
+    container.scrollTo(4050);
+    expect(result.current.firstVisibleIndex).toBe(40);
+    expect(renderedIndexes(result.current.items)).toEqual([40, 41, 42, 43]);
+  });
+
+  it('reports reaching the end once the last row is rendered', () => {
+    const onEndReached = vi.fn();
+    const { container } = mount({ onEndReached });
+    expect(onEndReached).not.toHaveBeenCalled();
+
+    container.scrollTo(4700);
+    expect(onEndReached).toHaveBeenCalledTimes(1);
+  });
+});
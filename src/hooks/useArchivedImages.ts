@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { ImageArchive } from '@/services/imageArchive';
+
+// Content with archived image references swapped for object URLs once they have been read from storage;
+// the URLs are revoked when the content changes or the component unmounts
+export const useArchivedImages = (content: string) => {
+  const [resolved, setResolved] = useState({ source: content, content });
+
+  useEffect(() => {
+    if (!ImageArchive.hasArchivedImages(content)) return;
+
+    let cancelled = false;
+    let release: (() => void) | undefined;
+    ImageArchive.resolve(content)
+      .then(result => {
+        if (cancelled) {
+          result.release();
+          return;
+        }
+        release = result.release;
+        setResolved({ source: content, content: result.content });
+      })
+      .catch(error => console.error('Failed to load archived images:', error));
+
+    return () => {
+      cancelled = true;
+      if (!release) return;
+      release();
+      // The revoked URLs must not come back if the same content is shown again
+      setResolved(current => current.source === content ? { source: '', content: '' } : current);
+    };
+  }, [content]);
+
+  return resolved.source === content ? resolved.content : content;
+};
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+
+// Reports items that scrolled out of view past the top of a virtual list: every row between the first
+// visible row at the last check and the first visible row now. Rows are compared by position rather
+// than observed, since rows that scroll by quickly are unmounted before they could be seen leaving.
+export const useReadOnScroll = (
+  enabled: boolean,
+  keys: string[],
+  firstVisibleIndex: number,
+  onScrolledPast: (articleId: string) => void
+) => {
+  const callbackRef = useRef(onScrolledPast);
+  callbackRef.current = onScrolledPast;
+  const keysRef = useRef(keys);
+  keysRef.current = keys;
+  const firstVisibleKeyRef = useRef<string | undefined>(undefined);
+  const firstVisibleKey = keys[firstVisibleIndex];
+
+  useEffect(() => {
+    const previousKey = firstVisibleKeyRef.current;
+    firstVisibleKeyRef.current = firstVisibleKey;
+    if (!enabled || previousKey === undefined || firstVisibleKey === undefined) return;
+
+    // Looked up by key, so articles added above since the last check don't shift the range
+    const currentKeys = keysRef.current;
+    const previousIndex = currentKeys.indexOf(previousKey);
+    const currentIndex = currentKeys.indexOf(firstVisibleKey);
+    if (previousIndex < 0) return;
+    currentKeys.slice(previousIndex, currentIndex).forEach(key => callbackRef.current(key));
+  }, [enabled, firstVisibleKey]);
+};
@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState, type RefObject } from 'react';
+
+interface VirtualListOptions {
+  keys: string[];
+  scrollRef: RefObject<HTMLElement>;
+  estimateSize: number; // height assumed for rows that haven't been measured yet
+  gap?: number;
+  overscan?: number; // pixels rendered beyond each edge of the viewport
+  onEndReached?: () => void;
+}
+
+interface VirtualItem {
+  index: number;
+  key: string;
+  start: number;
+}
+
+// Renders only the rows near the visible part of a scroll container.
+// Rows have variable height: they register through the returned measure ref and need a data-virtual-key attribute.
+// The list element is positioned relative with the returned total height, rows absolutely at their start offset.
+export const useVirtualList = ({
+  keys,
+  scrollRef,
+  estimateSize,
+  gap = 0,
+  overscan = 600,
+  onEndReached
+}: VirtualListOptions) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const sizesRef = useRef(new Map<string, number>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const elementsRef = useRef(new Set<HTMLElement>());
+  const endReachedRef = useRef(onEndReached);
+  endReachedRef.current = onEndReached;
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [, setMeasureVersion] = useState(0);
+
+  // The viewport in list coordinates, so headers above the list inside the scroll container are accounted for
+  const updateViewport = useCallback(() => {
+    const scroll = scrollRef.current;
+    const list = listRef.current;
+    if (!scroll || !list) return;
+
+    const listOffset = list.getBoundingClientRect().top - scroll.getBoundingClientRect().top + scroll.scrollTop;
+    const top = scroll.scrollTop - listOffset;
+    const height = scroll.clientHeight;
+    setViewport(current => current.top === top && current.height === height ? current : { top, height });
+  }, [scrollRef]);
+
+  useLayoutEffect(() => {
+    const scroll = scrollRef.current;
+    if (!scroll) return;
+
+    updateViewport();
+    const resizeObserver = new ResizeObserver(updateViewport);
+    resizeObserver.observe(scroll);
+    scroll.addEventListener('scroll', updateViewport, { passive: true });
+
+    return () => {
+      resizeObserver.disconnect();
+      scroll.removeEventListener('scroll', updateViewport);
+    };
+  }, [scrollRef, updateViewport, keys.length]);
+
+  useEffect(() => {
+    return () => {
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+    };
+  }, []);
+
+  const starts: number[] = [];
+  let totalSize = 0;
+  for (const key of keys) {
+    starts.push(totalSize);
+    totalSize += (sizesRef.current.get(key) ?? estimateSize) + gap;
+  }
+  totalSize = Math.max(0, totalSize - gap);
+
+  // Index of the first row ending below the given offset
+  const firstEndingAfter = (offset: number) => {
+    let low = 0;
+    let high = keys.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      const end = starts[middle] + (sizesRef.current.get(keys[middle]) ?? estimateSize);
+      if (end < offset) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  };
+
+  // First row ending below the top edge, then every row starting above the bottom edge
+  const rangeBottom = viewport.top + viewport.height + overscan;
+  const firstVisibleIndex = firstEndingAfter(viewport.top + 1); // rows ending exactly at the top are out of view
+  const items: VirtualItem[] = [];
+  for (let index = firstEndingAfter(viewport.top - overscan); index < keys.length && starts[index] <= rangeBottom; index++) {
+    items.push({ index, key: keys[index], start: starts[index] });
+  }
+
+  const lastIndex = items.length > 0 ? items[items.length - 1].index : -1;
+  useEffect(() => {
+    if (keys.length > 0 && lastIndex === keys.length - 1) endReachedRef.current?.();
+  }, [lastIndex, keys.length]);
+
+  const measure = useCallback((element: HTMLElement | null) => {
+    elementsRef.current.forEach(existing => {
+      if (!existing.isConnected) {
+        observerRef.current?.unobserve(existing);
+        elementsRef.current.delete(existing);
+      }
+    });
+
+    if (!element) return;
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver((entries) => {
+        let changed = false;
+        for (const entry of entries) {
+          const key = (entry.target as HTMLElement).dataset.virtualKey;
+          // Removed rows report a zero size, which would collapse their slot until they are shown again
+          if (!key || !entry.target.isConnected) continue;
+          const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.target.getBoundingClientRect().height;
+          if (sizesRef.current.get(key) !== height) {
+            sizesRef.current.set(key, height);
+            changed = true;
+          }
+        }
+        if (changed) setMeasureVersion(version => version + 1);
+      });
+    }
+    elementsRef.current.add(element);
+    observerRef.current.observe(element);
+  }, []);
+
+  return { listRef, items, totalSize, firstVisibleIndex, measure };
+};
@@ -8,7 +8,8 @@ import { KnowledgeStore } from '@/components/KnowledgeStore/KnowledgeStore';
 import { AISummarizer } from '@/components/AISummarizer/AISummarizer';
 import { AppHeader } from '@/components/Layout/AppHeader';
 import { useTheme } from '@/hooks/useTheme';
-import { storageService, type Article } from '@/services/storageService';
+import { storageService, type Article, type PageSnapshot, type ArchivedImage } from '@/services/storageService';
+import { feedScheduler } from '@/services/feedScheduler';
 
 const Index = () => {
   const { theme, toggleTheme } = useTheme();
@@ -17,8 +18,16 @@ const Index = () => {
   const [articleToSummarize, setArticleToSummarize] = useState<Article | null>(null);
 
   useEffect(() => {
-    // Initialize storage service
-    storageService.init();
+    // Initialize storage service, then start background feed polling unless unmounted meanwhile
+    let cancelled = false;
+    storageService.init().then(() => {
+      if (!cancelled) feedScheduler.start();
+    });
+
+    return () => {
+      cancelled = true;
+      feedScheduler.stop();
+    };
   }, []);
 
   const handleSendToEditor = (article: Article) => {
@@ -31,8 +40,8 @@ const Index = () => {
     setActiveTab('summarize');
   };
 
-  const handleSaveToKnowledge = (article: Article) => {
-    storageService.saveArticle(article);
+  const handleSaveToKnowledge = async (article: Article, snapshot?: Omit<PageSnapshot, 'id'>, images?: ArchivedImage[]) => {
+    await storageService.saveArticle(article, snapshot, images);
     setActiveTab('knowledge');
   };
 
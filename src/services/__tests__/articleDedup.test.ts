@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { ArticleDedup } from '../articleDedup';
+import { LinkResolver } from '../linkResolver';
+
+describe('ArticleDedup.normalizeUrl', () => {
+  it('ignores scheme, "www.", fragments, trailing slashes and known tracking parameters', () => {
+    expect(ArticleDedup.normalizeUrl('https://www.Example.com/post/?utm_source=rss&utm_medium=feed&fbclid=abc&mc_cid=1#top'))
+      .toBe('example.com/post');
+    expect(ArticleDedup.normalizeUrl('http://example.com/post?gclid=x&page=2')).toBe('example.com/post?page=2');
+  });
+
+  it('keeps generic parameters that can select the page', () => {
+    expect(ArticleDedup.normalizeUrl('https://example.com/view?ref=v2.1')).toBe('example.com/view?ref=v2.1');
+    expect(ArticleDedup.normalizeUrl('https://example.com/diff?source=main&id=7')).toBe('example.com/diff?source=main&id=7');
+    expect(ArticleDedup.normalizeUrl('https://example.com/view?ref=v1')).not.toBe(ArticleDedup.normalizeUrl('https://example.com/view?ref=v2'));
+  });
+});
+
+describe('LinkResolver.stripTracking', () => {
+  it('uses the same list of tracking parameters', () => {
+    expect(LinkResolver.stripTracking('https://example.com/a?ref=main&utm_campaign=x')).toBe('https://example.com/a?ref=main');
+  });
+});
+
+describe('ArticleDedup.candidateRanges', () => {
+  it('covers three days around each date and merges overlapping ranges', () => {
+    const day = 86400000;
+    expect(ArticleDedup.candidateRanges([20 * day, 2 * day, 0])).toEqual([[-3 * day, 5 * day], [17 * day, 23 * day]]);
+  });
+});
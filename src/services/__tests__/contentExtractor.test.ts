@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { ContentExtractor } from '../contentExtractor';
+
+interface ExpectedExtraction {
+  url: string;
+  title: string;
+  byline: string;
+  siteName: string;
+  excerpt: string;
+  leadImage: string | null;
+  publishDate: string | null; // ISO 8601
+  contentIncludes: string[]; // fragments of the extracted HTML
+  contentExcludes: string[]; // page furniture that must not survive
+}
+
+// Every saved page in the corpus comes with an .expected.json next to it
+const pages = import.meta.glob<string>('./fixtures/pages/*.html', { query: '?raw', import: 'default', eager: true });
+const expectations = import.meta.glob<string>('./fixtures/pages/*.expected.json', { query: '?raw', import: 'default', eager: true });
+
+const corpus = Object.entries(pages).map(([path, html]) => {
+  const name = path.replace(/^.*\/|\.html$/g, '');
+  const expected = expectations[path.replace(/\.html$/, '.expected.json')];
+  if (!expected) throw new Error(`Missing expected output for ${name}`);
+  return { name, html, expected: JSON.parse(expected) as ExpectedExtraction };
+});
+
+describe('ContentExtractor.extract', () => {
+  it('has a corpus to check', () => {
+    expect(corpus.length).toBeGreaterThan(0);
+  });
+
+  describe.each(corpus)('$name', ({ html, expected }) => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const extracted = ContentExtractor.extract(doc, expected.url);
+    const content = extracted.content.innerHTML;
+
+    it('reads the metadata', () => {
+      expect({
+        title: extracted.title,
+        byline: extracted.byline,
+        siteName: extracted.siteName,
+        excerpt: extracted.excerpt,
+        leadImage: extracted.leadImage ?? null,
+        publishDate: extracted.publishDate === undefined ? null : new Date(extracted.publishDate).toISOString()
+      }).toEqual({
+        title: expected.title,
+        byline: expected.byline,
+        siteName: expected.siteName,
+        excerpt: expected.excerpt,
+        leadImage: expected.leadImage,
+        publishDate: expected.publishDate
+      });
+    });
+
+    it('keeps the article body', () => {
+      for (const fragment of expected.contentIncludes) {
+        expect(content).toContain(fragment);
+      }
+    });
+
+    it('drops the page furniture', () => {
+      for (const fragment of expected.contentExcludes) {
+        expect(content).not.toContain(fragment);
+      }
+    });
+  });
+});
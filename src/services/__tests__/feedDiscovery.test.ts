@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FeedDiscovery } from '../feedDiscovery';
+
+const RSS = `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Example Blog</title><link>https://blog.example.com/</link><description></description></channel></rss>`;
+
+// Answers the page and /feed.xml; every other path is a 404
+const stubFetch = () => {
+  const requested: string[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    requested.push(url);
+    if (url === 'https://blog.example.com/') return new Response('<html><head><title>Blog</title></head></html>');
+    if (url === 'https://blog.example.com/feed.xml') return new Response(RSS);
+    return new Response('', { status: 404 });
+  }));
+  return requested;
+};
+
+describe('FeedDiscovery.discover', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('probes common paths in batches and stops at the batch that finds a feed', async () => {
+    const requested = stubFetch();
+
+    const feeds = await FeedDiscovery.discover('https://blog.example.com/');
+
+    expect(feeds).toEqual([expect.objectContaining({ url: 'https://blog.example.com/feed.xml', title: 'Example Blog' })]);
+    expect(requested).toEqual([
+      'https://blog.example.com/',
+      'https://blog.example.com/feed',
+      'https://blog.example.com/rss.xml',
+      'https://blog.example.com/atom.xml',
+      'https://blog.example.com/feed.xml',
+      'https://blog.example.com/index.xml',
+      'https://blog.example.com/rss'
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FeedRefresher } from '../feedRefresher';
+import { storageService, type Article, type Feed } from '../storageService';
+import { RSSParser, type RSSItem } from '../rssParser';
+import { FaviconService } from '../faviconService';
+import { retentionService } from '../retentionService';
+import { URLToMarkdownConverter } from '../urlToMarkdown';
+
+const feed: Feed = {
+  id: 'feed_new',
+  title: 'Example Blog',
+  url: 'https://blog.example.com/feed.xml',
+  description: '',
+  category: 'General',
+  lastUpdated: 0,
+  updateInterval: 3600000
+};
+
+const item = (slug: string): RSSItem => ({
+  title: `Post ${slug}`,
+  link: `https://blog.example.com/${slug}`,
+  description: 'Body',
+  pubDate: '2024-06-04T09:30:00Z'
+});
+
+const stored = (slug: string, fields: Partial<Article>): Article => ({
+  id: `article_${slug}`,
+  title: `Post ${slug}`,
+  url: `https://blog.example.com/${slug}`,
+  content: 'Body',
+  publishDate: Date.parse('2024-06-04T09:30:00Z'),
+  isRead: true,
+  tags: [],
+  ...fields
+});
+
+describe('FeedRefresher.saveNewItems', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reattaches only articles kept from the same feed, and clusters with ones saved elsewhere', async () => {
+    const kept = stored('kept', { starredAt: 1, detachedFrom: 'blog.example.com/feed.xml' });
+    const fetched = stored('fetched', {});
+    vi.spyOn(storageService, 'getArticlesByFeed').mockResolvedValue([]);
+    const findArticles = vi.spyOn(storageService, 'findArticles').mockResolvedValue([kept, fetched]);
+    const updateArticle = vi.spyOn(storageService, 'updateArticle').mockResolvedValue();
+    const saveArticle = vi.spyOn(storageService, 'saveArticle').mockResolvedValue('article_saved');
+
+    const saved = await FeedRefresher.saveNewItems(feed, [item('kept'), item('fetched')]);
+
+    expect(findArticles).toHaveBeenCalledWith(expect.objectContaining({
+      urlKeys: ['blog.example.com/kept', 'blog.example.com/fetched'],
+      detachedFrom: 'blog.example.com/feed.xml'
+    }));
+    expect(updateArticle).toHaveBeenCalledTimes(1);
+    expect(updateArticle).toHaveBeenCalledWith({ ...kept, feedId: 'feed_new', detachedFrom: undefined });
+    expect(saved).toBe(1);
+    expect(saveArticle).toHaveBeenCalledWith(expect.objectContaining({
+      feedId: 'feed_new',
+      url: 'https://blog.example.com/fetched',
+      clusterId: 'article_fetched'
+    }));
+  });
+
+  it('clusters copies of a story that arrive in the same refresh', async () => {
+    vi.spyOn(storageService, 'getArticlesByFeed').mockResolvedValue([]);
+    vi.spyOn(storageService, 'findArticles').mockResolvedValue([]);
+    const saveArticle = vi.spyOn(storageService, 'saveArticle')
+      .mockResolvedValueOnce('article_first')
+      .mockResolvedValueOnce('article_second');
+    const title = 'Storm reaches the coast tonight';
+
+    const saved = await FeedRefresher.saveNewItems(feed, [
+      { ...item('storm'), title },
+      { ...item('storm-live'), title: `${title}!` }
+    ]);
+
+    expect(saved).toBe(2);
+    expect(saveArticle).toHaveBeenLastCalledWith(expect.objectContaining({
+      url: 'https://blog.example.com/storm-live',
+      clusterId: 'article_first'
+    }));
+  });
+
+  it('skips the lookup when every item is already stored for the feed', async () => {
+    vi.spyOn(storageService, 'getArticlesByFeed').mockResolvedValue([stored('old', { feedId: 'feed_new' })]);
+    const findArticles = vi.spyOn(storageService, 'findArticles');
+
+    expect(await FeedRefresher.saveNewItems(feed, [item('old')])).toBe(0);
+    expect(findArticles).not.toHaveBeenCalled();
+  });
+
+  it('stores the sanitized page as full content when the feed asks for it', async () => {
+    vi.spyOn(storageService, 'getArticlesByFeed').mockResolvedValue([]);
+    vi.spyOn(storageService, 'findArticles').mockResolvedValue([]);
+    const saveArticle = vi.spyOn(storageService, 'saveArticle').mockResolvedValue('article_full');
+    const fetchArticleHTML = vi.spyOn(URLToMarkdownConverter, 'fetchArticleHTML').mockResolvedValue({
+      html: '<p>The whole story</p><script>alert(1)</script>',
+      title: 'Post full'
+    });
+
+    expect(await FeedRefresher.saveNewItems({ ...feed, fetchFullContent: true }, [item('full')])).toBe(1);
+    expect(fetchArticleHTML).toHaveBeenCalledWith('https://blog.example.com/full');
+    const article = saveArticle.mock.calls[0][0];
+    expect(article.content).toBe('Body');
+    expect(article.fullContent).toContain('<p>The whole story</p>');
+    expect(article.fullContent).not.toContain('<script');
+  });
+
+  it('keeps the excerpt and still saves the article when the page cannot be fetched', async () => {
+    vi.spyOn(storageService, 'getArticlesByFeed').mockResolvedValue([]);
+    vi.spyOn(storageService, 'findArticles').mockResolvedValue([]);
+    const saveArticle = vi.spyOn(storageService, 'saveArticle').mockResolvedValue('article_excerpt');
+    vi.spyOn(URLToMarkdownConverter, 'fetchArticleHTML').mockRejectedValue(new Error('HTTP 500'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await FeedRefresher.saveNewItems({ ...feed, fetchFullContent: true }, [item('excerpt')])).toBe(1);
+    const article = saveArticle.mock.calls[0][0];
+    expect(article.content).toBe('Body');
+    expect(article.fullContent).toBeUndefined();
+  });
+
+  it('does not fetch pages for feeds without full content', async () => {
+    vi.spyOn(storageService, 'getArticlesByFeed').mockResolvedValue([]);
+    vi.spyOn(storageService, 'findArticles').mockResolvedValue([]);
+    vi.spyOn(storageService, 'saveArticle').mockResolvedValue('article_plain');
+    const fetchArticleHTML = vi.spyOn(URLToMarkdownConverter, 'fetchArticleHTML');
+
+    await FeedRefresher.saveNewItems(feed, [item('plain')]);
+    expect(fetchArticleHTML).not.toHaveBeenCalled();
+  });
+});
+
+describe('FeedRefresher.refreshFeed', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('stores the refresh before looking up the icon, reading a relative site link against the feed URL', async () => {
+    vi.spyOn(storageService, 'getFeed').mockResolvedValue(feed);
+    vi.spyOn(RSSParser, 'fetchConditional').mockResolvedValue({
+      notModified: false,
+      feed: { title: 'Example Blog', description: '', link: '/', format: 'rss2', items: [] }
+    });
+    vi.spyOn(FeedRefresher, 'saveNewItems').mockResolvedValue(0);
+    vi.spyOn(retentionService, 'pruneFeed').mockResolvedValue(0);
+    const patchFeed = vi.spyOn(storageService, 'patchFeed').mockResolvedValue(feed);
+    const resolve = vi.spyOn(FaviconService, 'resolve').mockRejectedValue(new Error('icon lookup failed'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await FeedRefresher.refreshFeed(feed);
+
+    expect(result.error).toBeUndefined();
+    expect(patchFeed).toHaveBeenCalledWith('feed_new', expect.objectContaining({ siteUrl: 'https://blog.example.com/' }));
+    expect(resolve).toHaveBeenCalledWith('https://blog.example.com/', undefined, feed.url);
+    expect(patchFeed.mock.invocationCallOrder[0]).toBeLessThan(resolve.mock.invocationCallOrder[0]);
+  });
+});
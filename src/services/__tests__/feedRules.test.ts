@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { FeedRuleEngine } from '../feedRules';
+import type { FeedRule } from '../appSettings';
+import type { Article } from '../storageService';
+
+const rule = (fields: Partial<FeedRule>): FeedRule => ({
+  id: 'rule',
+  enabled: true,
+  field: 'title',
+  pattern: '',
+  negate: false,
+  action: 'hide',
+  ...fields
+});
+
+const item = (fields: Partial<Article> = {}): Omit<Article, 'id'> => ({
+  feedId: 'feed_a',
+  title: 'Sponsored: The best laptops (a+b)',
+  author: 'Jane Doe',
+  publishDate: 0,
+  content: '<p>Buy <b>now</b></p>',
+  url: 'https://example.com/post',
+  isRead: false,
+  tags: [],
+  ...fields
+});
+
+describe('FeedRuleEngine.compile', () => {
+  it('reads /pattern/flags as a regular expression and anything else as a literal substring', () => {
+    expect(FeedRuleEngine.compile('/^spon/i')?.test('Sponsored post')).toBe(true);
+    expect(FeedRuleEngine.compile('/^spon/')?.test('Sponsored post')).toBe(false);
+    expect(FeedRuleEngine.compile('(A+B)')?.test('the best laptops (a+b)')).toBe(true);
+    expect(FeedRuleEngine.compile('a.b')?.test('axb')).toBe(false);
+  });
+
+  it('rejects invalid regular expressions and blank patterns', () => {
+    expect(FeedRuleEngine.compile('/[unclosed/')).toBeNull();
+    expect(FeedRuleEngine.validate('/[unclosed/')).toBe('Invalid regular expression');
+    expect(FeedRuleEngine.validate('  ')).not.toBeNull();
+    expect(FeedRuleEngine.validate('sponsored')).toBeNull();
+  });
+});
+
+describe('FeedRuleEngine.matches', () => {
+  it('matches content without markup and inverts the result when negated', () => {
+    expect(FeedRuleEngine.matches(rule({ field: 'content', pattern: 'buy now' }), item())).toBe(true);
+    expect(FeedRuleEngine.matches(rule({ field: 'author', pattern: 'jane', negate: true }), item())).toBe(false);
+    expect(FeedRuleEngine.matches(rule({ field: 'author', pattern: 'jane', negate: true }), item({ author: 'John' }))).toBe(true);
+  });
+});
+
+describe('FeedRuleEngine.apply', () => {
+  it('applies rules in order, so a hide after a tag still drops the item', () => {
+    const rules = [
+      rule({ id: 'tag', pattern: 'sponsored', action: 'tag', tag: 'ads' }),
+      rule({ id: 'read', pattern: 'laptops', action: 'mark-read' }),
+      rule({ id: 'hide', field: 'author', pattern: 'jane' })
+    ];
+
+    expect(FeedRuleEngine.apply(rules.slice(0, 2), item())).toMatchObject({ tags: ['ads'], isRead: true });
+    expect(FeedRuleEngine.apply(rules, item())).toBeNull();
+  });
+
+  it('skips disabled rules and rules scoped to another feed', () => {
+    const rules = [
+      rule({ pattern: 'sponsored', feedId: 'feed_b' }),
+      rule({ pattern: 'sponsored', enabled: false }),
+      rule({ pattern: 'sponsored', feedId: 'feed_a', action: 'star' })
+    ];
+
+    expect(FeedRuleEngine.apply(rules, item())?.starredAt).toEqual(expect.any(Number));
+    expect(FeedRuleEngine.apply(rules, item({ feedId: 'feed_c' }))?.starredAt).toBeUndefined();
+  });
+});
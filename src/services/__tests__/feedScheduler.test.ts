@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest';
+import { feedScheduler } from '../feedScheduler';
+import { FeedRefresher, type FeedRefreshResult } from '../feedRefresher';
+import type { Feed } from '../storageService';
+
+const feed = (id: string): Feed => ({
+  id,
+  title: `Feed ${id}`,
+  url: `https://example.com/${id}.xml`,
+  description: '',
+  category: 'General',
+  lastUpdated: 0,
+  updateInterval: 3600000
+});
+
+describe('feedScheduler.refreshNow', () => {
+  it('skips feeds that are already being refreshed', async () => {
+    let finish: (result: FeedRefreshResult) => void = () => {};
+    const refreshFeed = vi.spyOn(FeedRefresher, 'refreshFeed').mockImplementation(target =>
+      target.id === 'slow'
+        ? new Promise(resolve => { finish = resolve; })
+        : Promise.resolve({ feedId: target.id, feedTitle: target.title, newArticles: 1 })
+    );
+
+    const first = feedScheduler.refreshNow([feed('slow')]);
+    expect(feedScheduler.getStatus(feed('slow')).isRefreshing).toBe(true);
+
+    const second = await feedScheduler.refreshNow([feed('slow'), feed('other')]);
+    expect(second.map(result => result.feedId)).toEqual(['other']);
+    expect(refreshFeed).toHaveBeenCalledTimes(2);
+
+    finish({ feedId: 'slow', feedTitle: 'Feed slow', newArticles: 0 });
+    expect(await first).toHaveLength(1);
+    expect(feedScheduler.getStatus(feed('slow')).isRefreshing).toBe(false);
+
+    refreshFeed.mockRestore();
+  });
+});
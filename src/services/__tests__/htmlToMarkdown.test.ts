@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { marked } from 'marked';
+import { HTMLToMarkdown } from '../htmlToMarkdown';
+
+const toMarkdown = (html: string) => {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  return HTMLToMarkdown.convert(doc.body);
+};
+
+// Structure only: whitespace between blocks, implicit table sections and equivalent tags don't count
+const RENAMED: Record<string, string> = { b: 'strong', i: 'em', s: 'del', strike: 'del' };
+const TRANSPARENT = new Set(['thead', 'tbody', 'tfoot']);
+const KEPT_ATTRIBUTES = ['href', 'src', 'alt', 'title', 'class', 'type', 'checked', 'start', 'align'];
+const BLOCKS = 'body|p|h[1-6]|ul|ol|li|blockquote|pre|table|tr|th|td|hr|dl|dt|dd|div|br';
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const serialize = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return escapeHtml(node.textContent || '');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const tag = RENAMED[el.tagName.toLowerCase()] || el.tagName.toLowerCase();
+  const children = Array.from(el.childNodes).map(serialize).join('');
+  if (TRANSPARENT.has(tag)) return children;
+
+  const attributes = KEPT_ATTRIBUTES
+    .filter(name => el.hasAttribute(name) && !(tag === 'pre' && name === 'class'))
+    .map(name => ` ${name}="${name === 'checked' ? '' : el.getAttribute(name)}"`)
+    .join('');
+  if (tag === 'br' || tag === 'hr' || tag === 'img' || tag === 'input') return `<${tag}${attributes}>`;
+  // Renderers end code blocks with a newline that isn't part of the code
+  const content = tag === 'code' && el.parentElement?.tagName === 'PRE' ? children.replace(/\n$/, '') : children;
+  return `<${tag}${attributes}>${content}</${tag}>`;
+};
+
+const canonical = (html: string) => {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  return serialize(doc.body)
+    .split(/(<pre>[\s\S]*?<\/pre>)/)
+    .map((part, index) => index % 2 === 1 ? part : part
+      .replace(/\s+/g, ' ')
+      .replace(new RegExp(`\\s*(</?(?:${BLOCKS})\\b[^>]*>)\\s*`, 'g'), '$1'))
+    .join('')
+    .trim();
+};
+
+const roundTrip = (html: string) => marked.parse(toMarkdown(html), { gfm: true, async: false }) as string;
+
+describe('HTMLToMarkdown.convert', () => {
+  describe('round trip through a CommonMark + GFM renderer', () => {
+    const cases: [string, string][] = [
+      ['headings with inline formatting', '<h1>Title with <em>emphasis</em></h1><h3>A <a href="https://example.com/">linked</a> heading</h3>'],
+      ['paragraphs with nested formatting', '<p>Some <strong>bold and <em>both</em></strong> text, <del>struck</del> and <code>code</code>.</p><p>Second paragraph.</p>'],
+      ['line breaks', '<p>Line one<br>Line two<br>Line three</p>'],
+      ['thematic breaks', '<p>Before</p><hr><p>After</p>'],
+      ['links with titles and autolinks', '<p><a href="https://example.com/a" title="The &quot;A&quot; page">A page</a> and <a href="https://example.com/b">https://example.com/b</a></p>'],
+      ['links with spaces and parentheses', '<p><a href="https://example.com/wiki/Foo_(bar)">Foo</a></p>'],
+      ['images', '<p><img src="https://example.com/cat.png" alt="A [cat]" title="Cat"></p>'],
+      ['nested lists', '<ul><li>One<ul><li>One A</li><li>One B<ol><li>Deep</li></ol></li></ul></li><li>Two</li></ul>'],
+      ['ordered lists with a start', '<ol start="3"><li>Three</li><li>Four</li></ol>'],
+      ['loose lists', '<ul><li><p>First paragraph</p><p>Continued</p></li><li><p>Second item</p></li></ul>'],
+      ['task lists', '<ul><li><input type="checkbox" checked> Done</li><li><input type="checkbox"> Not done</li></ul>'],
+      ['blockquotes with blocks inside', '<blockquote><p>Quoted <em>text</em></p><ul><li>And a list</li></ul><blockquote><p>Nested</p></blockquote></blockquote>'],
+      ['code blocks with a language', '<pre><code class="language-ts">const a = 1;\n\nif (a &lt; 2) {\n  console.log("*not emphasis*");\n}</code></pre>'],
+      ['blank lines inside code blocks', '<pre><code class="language-python">import os\n\n\ndef main():\n    pass\n\n\n\nmain()</code></pre>'],
+      ['code containing fences', '<pre><code>```\nnested fence\n```</code></pre><p>Inline <code>a `tick` here</code></p>'],
+      ['tables', '<table><tr><th>Name</th><th>Value</th></tr><tr><td><strong>a</strong></td><td>1 | 2</td></tr><tr><td><code>x | y</code></td><td></td></tr></table>'],
+      ['text that looks like Markdown', '<p>1. not a list</p><p># not a heading</p><p>*not emphasis* and _not_ either, a_b_c, [not a link](x)</p><p>&lt;div&gt; is text, so is &amp;amp;</p><p>- not a bullet</p><p>&gt; not a quote</p>'],
+      ['inline HTML without Markdown syntax', '<p>E = mc<sup>2</sup>, H<sub>2</sub>O, press <kbd>Ctrl</kbd></p>']
+    ];
+
+    it.each(cases)('%s', (_name, html) => {
+      expect(canonical(roundTrip(html))).toBe(canonical(html));
+    });
+  });
+
+  describe('output', () => {
+    it('keeps blank lines inside code blocks', () => {
+      expect(toMarkdown('<pre><code>a\n\n\n\nb</code></pre>')).toBe('```\na\n\n\n\nb\n```\n');
+    });
+
+    it('separates blocks with exactly one blank line', () => {
+      expect(toMarkdown('<div><p>One</p></div>\n\n\n<div><div><p>Two</p></div></div>')).toBe('One\n\nTwo\n');
+    });
+
+    it('writes table alignment and colspan', () => {
+      expect(toMarkdown('<table><tr><th align="left">L</th><th style="text-align: center">C</th><th align="right">R</th></tr><tr><td colspan="2">wide</td><td>x</td></tr></table>'))
+        .toBe('| L | C | R |\n| :--- | :---: | ---: |\n| wide |  | x |\n');
+    });
+
+    it('keeps the table caption above the table', () => {
+      expect(toMarkdown('<table><caption>Monthly <em>totals</em></caption><tr><th>Month</th></tr><tr><td>May</td></tr></table>'))
+        .toBe('Monthly *totals*\n\n| Month |\n| --- |\n| May |\n');
+    });
+
+    it('escapes pipes in code spans inside table cells only', () => {
+      expect(toMarkdown('<table><tr><th>Op</th></tr><tr><td><code>a || b</code></td></tr></table>'))
+        .toBe('| Op |\n| --- |\n| `a \\|\\| b` |\n');
+      expect(toMarkdown('<p><code>a || b</code></p>')).toBe('`a || b`\n');
+    });
+
+    it('writes figures as the image followed by its caption', () => {
+      expect(toMarkdown('<figure><img src="a.png" alt="A"><figcaption>The caption</figcaption></figure>'))
+        .toBe('![A](a.png)\n\n*The caption*\n');
+    });
+
+    it('writes definition lists', () => {
+      expect(toMarkdown('<dl><dt>Term</dt><dd>Definition</dd></dl>')).toBe('**Term**\n\n: Definition\n');
+    });
+
+    it('drops scripts and javascript links', () => {
+      expect(toMarkdown('<p>Safe <a href="javascript:alert(1)">text</a></p><script>alert(1)</script>')).toBe('Safe text\n');
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ImageArchive } from '../imageArchive';
+import { storageService } from '../storageService';
+
+describe('ImageArchive.resolve', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('swaps references for object URLs that release() revokes', async () => {
+    const hash = 'f'.repeat(64);
+    vi.spyOn(storageService, 'getImage').mockResolvedValue({
+      hash, blob: new Blob(['image']), type: 'image/png', size: 5, sourceUrl: 'https://example.com/a.png', savedAt: 0
+    });
+    const revokeObjectURL = vi.fn();
+    vi.stubGlobal('URL', class extends URL {
+      static createObjectURL = () => 'blob:image-1';
+      static revokeObjectURL = revokeObjectURL;
+    });
+
+    const resolved = await ImageArchive.resolve(`<img src="readlater-image:${hash}"><img src="readlater-image:${hash}">`);
+    expect(resolved.content).toBe('<img src="blob:image-1"><img src="blob:image-1">');
+    expect(revokeObjectURL).not.toHaveBeenCalled();
+
+    resolved.release();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:image-1');
+  });
+});
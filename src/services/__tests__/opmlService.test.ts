@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { OPMLService } from '../opmlService';
+import type { Feed } from '../storageService';
+
+const feed = (title: string, category: string): Feed => ({
+  id: `feed_${title}`,
+  title,
+  url: `https://example.com/${title.toLowerCase()}.xml`,
+  description: '',
+  category,
+  lastUpdated: 0,
+  updateInterval: 3600000
+});
+
+const feeds = [
+  feed('Node', 'Tech / JavaScript'),
+  feed('Deno', 'Tech / JavaScript'),
+  feed('Rust', 'Tech / Systems'),
+  feed('Hacker', 'Tech'),
+  feed('Local', 'News & Politics')
+];
+
+describe('OPMLService.generate', () => {
+  const opml = OPMLService.generate(feeds);
+  const body = new DOMParser().parseFromString(opml, 'text/xml').querySelector('body')!;
+
+  it('writes nested category paths as nested folders', () => {
+    const tech = Array.from(body.children).find(outline => outline.getAttribute('text') === 'Tech')!;
+    const javascript = Array.from(tech.children).find(outline => outline.getAttribute('text') === 'JavaScript')!;
+
+    expect(Array.from(body.children).map(outline => outline.getAttribute('text'))).toEqual(['News & Politics', 'Tech']);
+    expect(Array.from(tech.children).map(outline => outline.getAttribute('text'))).toEqual(['JavaScript', 'Systems', 'Hacker']);
+    expect(Array.from(javascript.children).map(outline => outline.getAttribute('xmlUrl')))
+      .toEqual(['https://example.com/deno.xml', 'https://example.com/node.xml']);
+    expect(opml).not.toContain('Tech / JavaScript');
+  });
+
+  it('reads back to the same categories', () => {
+    const entries = OPMLService.parse(opml);
+    expect(entries.map(entry => [entry.title, entry.category]).sort())
+      .toEqual(feeds.map(entry => [entry.title, entry.category]).sort());
+  });
+});
+
+describe('OPMLService.normalizeUrl', () => {
+  it('ignores the case of the host but not of the path', () => {
+    expect(OPMLService.normalizeUrl('https://Example.com/feed/')).toBe(OPMLService.normalizeUrl('https://example.com/feed'));
+    expect(OPMLService.normalizeUrl('https://example.com/Feed')).not.toBe(OPMLService.normalizeUrl('https://example.com/feed'));
+  });
+});
@@ -0,0 +1,84 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { retentionService } from '../retentionService';
+import { storageService, type Article, type Feed } from '../storageService';
+
+const DAY = 86400000;
+
+const feed: Feed = {
+  id: 'feed_retained',
+  title: 'Retained',
+  url: 'https://example.com/feed.xml',
+  description: '',
+  category: 'General',
+  lastUpdated: 0,
+  updateInterval: 3600000
+};
+
+const article = (id: string, fields: Partial<Article> = {}): Article => ({
+  id,
+  feedId: feed.id,
+  guid: id,
+  title: id,
+  url: `https://example.com/${id}`,
+  content: '',
+  publishDate: Date.now(),
+  isRead: false,
+  tags: [],
+  ...fields
+});
+
+describe('retentionService.planFeed', () => {
+  it('keeps the newest articles within the limit and protected ones whatever their age', () => {
+    const articles = [
+      article('newest', { publishDate: 3 }),
+      article('middle', { publishDate: 2 }),
+      article('oldest', { publishDate: 1 }),
+      article('starred', { publishDate: 0, starredAt: 1 })
+    ];
+
+    const { overLimit, readExpired } = retentionService.planFeed(feed, articles, { maxItems: 2 });
+
+    expect(overLimit.map(candidate => candidate.id)).toEqual(['oldest']);
+    expect(readExpired).toEqual([]);
+  });
+
+  it('lists read articles older than the age limit, leaving unread and tagged ones', () => {
+    const old = Date.now() - 10 * DAY;
+    const articles = [
+      article('read', { publishDate: old, isRead: true }),
+      article('unread', { publishDate: old }),
+      article('tagged', { publishDate: old, isRead: true, tags: ['keep'] }),
+      article('recent', { isRead: true })
+    ];
+
+    const { overLimit, readExpired } = retentionService.planFeed(feed, articles, { readMaxAgeDays: 7 });
+
+    expect(overLimit).toEqual([]);
+    expect(readExpired.map(candidate => candidate.id)).toEqual(['read']);
+  });
+});
+
+describe('retentionService.cleanUp', () => {
+  beforeAll(async () => {
+    await storageService.init();
+    await storageService.updateFeed(feed);
+  });
+
+  it('skips articles protected, marked unread or deleted since the preview and counts only deletions', async () => {
+    const old = Date.now() - 10 * DAY;
+    const planned = ['expired', 'starred', 'unread', 'gone'].map(id => article(id, { publishDate: old, isRead: true }));
+    await storageService.updateArticles(planned.slice(0, 3));
+    const plan = {
+      total: planned.length,
+      byFeed: [{ feedId: feed.id, feedTitle: feed.title, overLimit: [], readExpired: planned }]
+    };
+
+    await storageService.patchArticles(['starred'], { starredAt: Date.now() });
+    await storageService.patchArticles(['unread'], { isRead: false });
+
+    expect(await retentionService.cleanUp(plan)).toBe(1);
+    expect((await storageService.getArticles()).map(candidate => candidate.id).sort()).toEqual(['starred', 'unread']);
+    expect((await storageService.getFeed(feed.id))?.removedItems).toEqual(['expired']);
+  });
+});
@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RSSParser } from '../rssParser';
+import { FetchError } from '../fetchClient';
+import { AppSettings } from '../appSettings';
+import rss2 from './fixtures/feeds/rss2.xml?raw';
+import rss2Expected from './fixtures/feeds/rss2.expected.json?raw';
+import rdf from './fixtures/feeds/rdf.xml?raw';
+import rdfExpected from './fixtures/feeds/rdf.expected.json?raw';
+import atom from './fixtures/feeds/atom.xml?raw';
+import atomExpected from './fixtures/feeds/atom.expected.json?raw';
+import jsonFeed from './fixtures/feeds/jsonfeed.json?raw';
+import jsonFeedExpected from './fixtures/feeds/jsonfeed.expected.json?raw';
+
+const FIXTURES = [
+  { name: 'RSS 2.0', feed: rss2, expected: rss2Expected },
+  { name: 'RSS 1.0 (RDF)', feed: rdf, expected: rdfExpected },
+  { name: 'Atom', feed: atom, expected: atomExpected },
+  { name: 'JSON Feed', feed: jsonFeed, expected: jsonFeedExpected }
+];
+
+describe('RSSParser.parse', () => {
+  it.each(FIXTURES)('parses the $name fixture', ({ feed, expected }) => {
+    expect(RSSParser.parse(feed, 'https://example.com/feed')).toEqual(JSON.parse(expected));
+  });
+
+  describe('Atom', () => {
+    const parsed = RSSParser.parse(atom);
+
+    it('prefers the alternate link over self, for the feed and its entries', () => {
+      expect(parsed.link).toBe('https://notes.example.net/');
+      expect(parsed.items[0].link).toBe('https://notes.example.net/2024/xhtml');
+    });
+
+    it('falls back to a link without rel', () => {
+      expect(parsed.items[1].link).toBe('https://notes.example.net/2024/plain');
+    });
+
+    it('keeps the markup of xhtml content without the wrapper div or namespace declarations', () => {
+      expect(parsed.items[0].content).toBe('<p>Hello <b>world</b>.</p>');
+      expect(parsed.items[0].content).not.toContain('xmlns');
+    });
+
+    it('uses the feed author when an entry has none', () => {
+      expect(parsed.items[1].author).toBe('Feed Author');
+    });
+  });
+
+  describe('attachments', () => {
+    const rssItem = (body: string) => RSSParser.parse(`<rss version="2.0"
+      xmlns:media="http://search.yahoo.com/mrss/" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd">
+      <channel><title>T</title><item><link>https://example.com/ep</link>${body}</item></channel></rss>`).items[0];
+
+    it('reads enclosures with their length and the item\'s iTunes duration and image', () => {
+      expect(rssItem(`
+        <enclosure url="https://cdn.example.com/ep.mp3" type="audio/mpeg" length="1234"/>
+        <itunes:duration>1:02:03</itunes:duration>
+        <itunes:image href="https://cdn.example.com/ep.jpg"/>
+      `).attachments).toEqual([
+        { url: 'https://cdn.example.com/ep.mp3', mimeType: 'audio/mpeg', length: 1234, duration: 3723, thumbnail: 'https://cdn.example.com/ep.jpg' }
+      ]);
+    });
+
+    it('reads iTunes durations given in minutes and seconds or in seconds', () => {
+      expect(rssItem('<enclosure url="https://cdn.example.com/a.mp3" type="audio/mpeg"/><itunes:duration>12:05</itunes:duration>')
+        .attachments?.[0].duration).toBe(725);
+      expect(rssItem('<enclosure url="https://cdn.example.com/a.mp3" type="audio/mpeg"/><itunes:duration>95</itunes:duration>')
+        .attachments?.[0].duration).toBe(95);
+    });
+
+    it('reads Media RSS content, using its medium when there is no type and its own duration', () => {
+      expect(rssItem(`
+        <media:content url="https://cdn.example.com/clip.webm" medium="video" fileSize="900" duration="42"/>
+        <media:thumbnail url="https://cdn.example.com/clip.jpg"/>
+        <itunes:duration>10</itunes:duration>
+      `).attachments).toEqual([
+        { url: 'https://cdn.example.com/clip.webm', mimeType: 'video/*', length: 900, duration: 42, thumbnail: 'https://cdn.example.com/clip.jpg' }
+      ]);
+    });
+
+    it('lists media given both as an enclosure and as Media RSS content once', () => {
+      const item = rssItem(`
+        <enclosure url="https://cdn.example.com/ep.mp3" type="audio/mpeg" length="1234"/>
+        <media:content url="https://cdn.example.com/ep.mp3" type="audio/mpeg"/>
+        <media:group><media:content url="https://cdn.example.com/ep.ogg" type="audio/ogg"/></media:group>
+      `);
+      expect(item.attachments?.map(attachment => attachment.url)).toEqual(['https://cdn.example.com/ep.mp3', 'https://cdn.example.com/ep.ogg']);
+      expect(item.attachments?.[0].length).toBe(1234);
+    });
+
+    it('reads JSON Feed attachments, skipping those without a URL', () => {
+      const parsed = RSSParser.parse(jsonFeed);
+      expect(parsed.items[0].attachments).toEqual([{
+        url: 'https://json.example.com/posts/2.m4a',
+        mimeType: 'audio/x-m4a',
+        length: 5000,
+        duration: 300,
+        thumbnail: 'https://json.example.com/posts/2.jpg'
+      }]);
+      expect(parsed.items[1].attachments).toEqual([]);
+    });
+  });
+
+  describe('media URLs', () => {
+    it('drops enclosures that are not http(s) and resolves relative ones against the item link', () => {
+      const parsed = RSSParser.parse(`<rss version="2.0"><channel><title>T</title><item>
+        <link>https://example.com/posts/1</link>
+        <enclosure url="javascript:alert(document.domain)" type="audio/mpeg"/>
+        <enclosure url="data:audio/mpeg;base64,AAAA" type="audio/mpeg"/>
+        <enclosure url="../media/1.mp3" type="audio/mpeg"/>
+      </item></channel></rss>`, 'https://example.com/feed.xml');
+
+      expect(parsed.items[0].attachments?.map(attachment => attachment.url)).toEqual(['https://example.com/media/1.mp3']);
+    });
+
+    it('drops JSON Feed attachments and images that are not http(s)', () => {
+      const parsed = RSSParser.parse(JSON.stringify({
+        version: 'https://jsonfeed.org/version/1.1',
+        items: [{
+          id: '1',
+          url: 'https://example.com/posts/1',
+          image: 'javascript:alert(1)',
+          attachments: [{ url: 'javascript:alert(1)', mime_type: 'audio/mpeg' }, { url: '/1.mp3', mime_type: 'audio/mpeg' }]
+        }]
+      }), 'https://example.com/feed.json');
+
+      expect(parsed.items[0].attachments).toEqual([
+        { url: 'https://example.com/1.mp3', mimeType: 'audio/mpeg', length: undefined, duration: undefined, thumbnail: undefined }
+      ]);
+    });
+  });
+
+  it('rejects HTML pages as not a feed', () => {
+    const parse = () => RSSParser.parse('<!DOCTYPE html><html><head><title>Hi</title></head><body><p>x<br></body></html>');
+    expect(parse).toThrow(FetchError);
+    expect(parse).toThrow('HTML page');
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => RSSParser.parse('<rss><channel><title>Broken</channel></rss>')).toThrow('not well-formed');
+  });
+
+  it('rejects JSON that is not a JSON Feed', () => {
+    expect(() => RSSParser.parse('{"version": "1.0", "items": []}')).toThrow('not a JSON Feed');
+  });
+});
+
+describe('RSSParser.fetchConditional', () => {
+  const validators = { etag: '"v1"', lastModified: 'Tue, 04 Jun 2024 09:30:00 GMT' };
+  const requests: { url: string; headers: Record<string, string> }[] = [];
+
+  const respond = (respondTo: (url: string, headers: Record<string, string>) => Response) => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit = {}) => {
+      const headers = { ...(init.headers as Record<string, string>) };
+      requests.push({ url, headers });
+      return respondTo(url, headers);
+    }));
+  };
+
+  beforeEach(() => {
+    requests.length = 0;
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('leaves the validators out of direct requests, which would otherwise need a CORS preflight', async () => {
+    respond(() => new Response(rss2, { status: 200, headers: { etag: '"v2"' } }));
+
+    const result = await RSSParser.fetchConditional('https://blog.example.com/feed.xml', validators);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].headers).not.toHaveProperty('If-None-Match');
+    expect(requests[0].headers).not.toHaveProperty('If-Modified-Since');
+    expect(result.notModified).toBe(false);
+    expect(result.etag).toBe('"v2"');
+    expect(result.lastModified).toBe(validators.lastModified);
+  });
+
+  it('sends the validators through the proxy and reports a 304 as not modified', async () => {
+    AppSettings.saveFetchSettings({ defaultTransport: 'proxy', proxyTemplate: 'http://localhost:8787/?url={url}', timeout: 15000, rules: [] });
+    respond(() => new Response(null, { status: 304 }));
+
+    const result = await RSSParser.fetchConditional('https://blog.example.com/feed.xml', validators);
+
+    expect(requests[0].url).toBe('http://localhost:8787/?url=https%3A%2F%2Fblog.example.com%2Ffeed.xml');
+    expect(requests[0].headers).toMatchObject({ 'If-None-Match': '"v1"', 'If-Modified-Since': validators.lastModified });
+    expect(result).toMatchObject({ notModified: true, etag: '"v1"' });
+  });
+
+  it('retries once without validators when the proxy rejects them', async () => {
+    AppSettings.saveFetchSettings({ defaultTransport: 'proxy', proxyTemplate: 'https://proxy.example.com/{url}', timeout: 15000, rules: [] });
+    respond((_url, headers) => {
+      if (headers['If-None-Match']) throw new TypeError('Failed to fetch');
+      return new Response(rss2, { status: 200 });
+    });
+
+    const result = await RSSParser.fetchConditional('https://blog.example.com/feed.xml', validators);
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].headers).not.toHaveProperty('If-None-Match');
+    expect(result.feed?.title).toBe('Example Engineering Blog');
+  });
+});
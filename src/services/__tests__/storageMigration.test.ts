@@ -0,0 +1,61 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { storageService } from '../storageService';
+
+const hash = (char: string) => char.repeat(64);
+
+// The stores and indexes as version 5 left them
+const openVersion5 = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open('ReadLaterApp', 5);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore('feeds', { keyPath: 'id' });
+    const articles = db.createObjectStore('articles', { keyPath: 'id' });
+    articles.createIndex('feedId', 'feedId', { unique: false });
+    articles.createIndex('isRead', 'isRead', { unique: false });
+    articles.createIndex('publishDate', 'publishDate', { unique: false });
+    articles.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+    articles.createIndex('starredAt', 'starredAt', { unique: false });
+    db.createObjectStore('highlights', { keyPath: 'id' }).createIndex('articleId', 'articleId', { unique: false });
+    db.createObjectStore('playback', { keyPath: 'articleId' });
+    db.createObjectStore('settings', { keyPath: 'key' });
+    db.createObjectStore('images', { keyPath: 'hash' });
+    db.createObjectStore('snapshots', { keyPath: 'id' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+describe('storageService upgrade from version 5', () => {
+  beforeAll(async () => {
+    const db = await openVersion5();
+    const transaction = db.transaction(['articles', 'images'], 'readwrite');
+    transaction.objectStore('articles').put({
+      id: 'article_old',
+      feedId: 'feed_a',
+      title: 'Old',
+      url: 'https://www.example.com/old/?utm_source=rss',
+      content: `<img src="readlater-image:${hash('a')}">`,
+      publishDate: 0,
+      isRead: false,
+      tags: []
+    });
+    ['a', 'b'].forEach(char => transaction.objectStore('images').put({ hash: hash(char), type: 'image/png', size: 1, sourceUrl: '', savedAt: 0 }));
+    await new Promise(resolve => { transaction.oncomplete = resolve; });
+    db.close();
+
+    await storageService.init();
+  });
+
+  it('adds lookup keys to existing articles', async () => {
+    expect(await storageService.findArticles({ urlKeys: ['example.com/old'] })).toEqual([
+      expect.objectContaining({ id: 'article_old', imageHashes: [hash('a')], unreadFeedId: 'feed_a' })
+    ]);
+    expect((await storageService.getArticleCounts()).unreadByFeed).toEqual({ feed_a: 1 });
+  });
+
+  it('removes archived images no article references', async () => {
+    expect(await storageService.getImage(hash('a'))).toBeDefined();
+    expect(await storageService.getImage(hash('b'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,202 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { storageService, type Article, type ArchivedImage } from '../storageService';
+
+const hash = (char: string) => char.repeat(64);
+
+const image = (char: string): ArchivedImage => ({
+  hash: hash(char),
+  blob: new Blob(['image']),
+  type: 'image/png',
+  size: 5,
+  sourceUrl: `https://example.com/${char}.png`,
+  savedAt: 0
+});
+
+const article = (fields: Partial<Article>): Omit<Article, 'id'> => ({
+  title: 'Story',
+  url: 'https://example.com/story',
+  content: '',
+  publishDate: 0,
+  isRead: false,
+  tags: [],
+  ...fields
+});
+
+const stored = async (...chars: string[]) => {
+  const found = await Promise.all(chars.map(char => storageService.getImage(hash(char))));
+  return chars.filter((_char, index) => found[index]);
+};
+
+describe('storageService', () => {
+  beforeAll(async () => {
+    await storageService.init();
+  });
+
+  describe('archived images', () => {
+    it('deletes images once no remaining article references them', async () => {
+      await Promise.all(['a', 'b', 'c'].map(char => storageService.saveImage(image(char))));
+      const first = await storageService.saveArticle(article({
+        content: `![A](readlater-image:${hash('a')}) ![B](readlater-image:${hash('b')})`
+      }));
+      const second = await storageService.saveArticle(article({
+        content: '<p>Excerpt</p>',
+        fullContent: `<img src="readlater-image:${hash('b')}"><img src="readlater-image:${hash('c')}">`
+      }));
+
+      await storageService.deleteArticle(first);
+      expect(await stored('a', 'b', 'c')).toEqual(['b', 'c']);
+
+      await storageService.deleteArticles([second]);
+      expect(await stored('a', 'b', 'c')).toEqual([]);
+    });
+
+    it('deletes the images of articles removed with their feed and keeps those of kept articles', async () => {
+      await Promise.all(['d', 'e'].map(char => storageService.saveImage(image(char))));
+      const feedId = await storageService.saveFeed({
+        url: 'https://example.com/feed.xml',
+        title: 'Feed',
+        description: '',
+        category: 'General',
+        lastUpdated: 0,
+        updateInterval: 3600000
+      });
+      await storageService.saveArticle(article({ feedId, content: `<img src="readlater-image:${hash('d')}">` }));
+      const kept = await storageService.saveArticle(article({
+        feedId,
+        starredAt: 1,
+        content: `<img src="readlater-image:${hash('e')}">`
+      }));
+
+      expect(await storageService.deleteFeed(feedId, { deleteArticles: true })).toEqual({ deleted: 1, kept: 1 });
+      expect(await stored('d', 'e')).toEqual(['e']);
+
+      const [detached] = await storageService.findArticles({ detachedFrom: 'example.com/feed.xml' });
+      expect(detached).toMatchObject({ id: kept, feedId: undefined });
+    });
+  });
+
+  describe('patchArticleWithImages', () => {
+    it('stores the images with the patched article and none for an article that is gone', async () => {
+      const id = await storageService.saveArticle(article({ content: '<img src="https://example.com/f.png">' }));
+      const patched = await storageService.patchArticleWithImages(id, {
+        content: `<img src="readlater-image:${hash('f')}">`
+      }, [image('f')]);
+      expect(patched?.imageHashes).toEqual([hash('f')]);
+
+      await storageService.deleteArticle(id);
+      expect(await storageService.patchArticleWithImages(id, { content: '' }, [image('g')])).toBeNull();
+      expect(await stored('f', 'g')).toEqual([]);
+    });
+  });
+
+  describe('findArticles', () => {
+    it('looks articles up by normalized url and publish date range, returning each once', async () => {
+      const id = await storageService.saveArticle(article({
+        url: 'https://www.example.com/lookup/?utm_source=rss',
+        publishDate: 5000
+      }));
+
+      const found = await storageService.findArticles({ urlKeys: ['example.com/lookup'], publishedWithin: [[4000, 6000]] });
+      expect(found.map(candidate => candidate.id)).toEqual([id]);
+      expect(await storageService.findArticles({ publishedWithin: [[6001, 9000]] })).toEqual([]);
+    });
+  });
+
+  describe('saveArticle with a snapshot', () => {
+    const snapshot = { url: 'https://example.com/saved', html: '<p>Page</p>', size: 11, savedAt: 0 };
+
+    it('stores the article and its snapshot together', async () => {
+      await storageService.saveArticle(article({ url: 'https://example.com/saved' }), snapshot);
+
+      const [saved] = await storageService.findArticles({ urlKeys: ['example.com/saved'] });
+      expect(saved.snapshot).toEqual({ id: expect.any(String), size: 11 });
+      expect(await storageService.getSnapshot(saved.snapshot!.id)).toMatchObject({ html: '<p>Page</p>' });
+    });
+
+    it('stores neither when one of them cannot be saved', async () => {
+      const unstorable = { ...snapshot, html: (() => '') as unknown as string };
+      await expect(storageService.saveArticle(article({ url: 'https://example.com/unsaved' }), unstorable)).rejects.toThrow();
+
+      expect(await storageService.findArticles({ urlKeys: ['example.com/unsaved'] })).toEqual([]);
+    });
+  });
+
+  describe('article counts', () => {
+    it('counts unread feed articles per feed and follows read state changes', async () => {
+      const before = await storageService.getArticleCounts();
+      const first = await storageService.saveArticle(article({ feedId: 'feed_counted' }));
+      await storageService.saveArticle(article({ feedId: 'feed_counted', isRead: true, starredAt: 1 }));
+      await storageService.saveArticle(article({ feedId: 'feed_other' }));
+      await storageService.saveArticle(article({ starredAt: 2 }));
+
+      const counts = await storageService.getArticleCounts();
+      expect(counts.unreadByFeed).toMatchObject({ feed_counted: 1, feed_other: 1 });
+      expect(counts.unread - before.unread).toBe(2);
+      expect(counts.starred - before.starred).toBe(1);
+      expect((await storageService.getUnreadArticles(['feed_counted'])).map(candidate => candidate.id)).toEqual([first]);
+
+      await storageService.patchArticles([first], { isRead: true });
+      expect((await storageService.getArticleCounts()).unreadByFeed.feed_counted).toBeUndefined();
+      expect(await storageService.getUnreadArticles(['feed_counted'])).toEqual([]);
+    });
+  });
+
+  describe('getArticlePage with feedIds', () => {
+    it('pages the given feeds newest first without reading other feeds', async () => {
+      const ids = await Promise.all([
+        storageService.saveArticle(article({ feedId: 'feed_paged_a', publishDate: 30 })),
+        storageService.saveArticle(article({ feedId: 'feed_paged_b', publishDate: 20 })),
+        storageService.saveArticle(article({ feedId: 'feed_paged_a', publishDate: 10 })),
+        storageService.saveArticle(article({ feedId: 'feed_paged_c', publishDate: 25 }))
+      ]);
+
+      const first = await storageService.getArticlePage({ index: 'publishDate', feedIds: ['feed_paged_a', 'feed_paged_b'], limit: 2 });
+      expect(first.articles.map(candidate => candidate.id)).toEqual([ids[0], ids[1]]);
+
+      const second = await storageService.getArticlePage({
+        index: 'publishDate',
+        feedIds: ['feed_paged_a', 'feed_paged_b'],
+        limit: 2,
+        after: first.next!
+      });
+      expect(second.articles.map(candidate => candidate.id)).toEqual([ids[2]]);
+      expect(second.next).toBeNull();
+    });
+  });
+
+  describe('countArticles', () => {
+    it('counts by tag and starring from index keys and reads bodies only for a matcher', async () => {
+      await storageService.saveArticle(article({ title: 'Counted one', tags: ['counted', 'other'], starredAt: 3 }));
+      await storageService.saveArticle(article({ title: 'Counted two', tags: ['counted'] }));
+      await storageService.saveArticle(article({ title: 'Uncounted', tags: ['other'] }));
+
+      expect(await storageService.countArticles({ tags: ['counted'] })).toBe(2);
+      expect(await storageService.countArticles({ tags: ['counted'], starredOnly: true })).toBe(1);
+      expect(await storageService.countArticles({ tags: ['counted'], matches: candidate => candidate.title.endsWith('two') })).toBe(1);
+      expect((await storageService.getArticleOverview()).tags).toEqual(expect.arrayContaining(['counted', 'other']));
+    });
+  });
+
+  describe('patchFeed', () => {
+    it('keeps fields changed since the caller read the feed, and does not re-create deleted feeds', async () => {
+      const feed = {
+        url: 'https://example.com/patch.xml',
+        title: 'Before',
+        description: '',
+        category: 'General',
+        lastUpdated: 0,
+        updateInterval: 3600000
+      };
+      const id = await storageService.saveFeed(feed);
+      await storageService.patchFeed(id, { title: 'Renamed' });
+
+      await storageService.patchFeed(id, { etag: '"v2"' });
+      expect(await storageService.getFeed(id)).toMatchObject({ title: 'Renamed', etag: '"v2"' });
+
+      await storageService.deleteFeed(id, { deleteArticles: true });
+      expect(await storageService.patchFeed(id, { etag: '"v3"' })).toBeNull();
+      expect(await storageService.getFeed(id)).toBeUndefined();
+    });
+  });
+});
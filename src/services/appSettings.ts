@@ -0,0 +1,137 @@
+type FetchTransport = 'direct' | 'proxy';
+
+interface RoutingRule {
+  id: string;
+  domain: string; // "example.com" also matches subdomains
+  transport: FetchTransport;
+  timeout?: number; // milliseconds, overrides the default
+}
+
+interface FetchSettings {
+  defaultTransport: FetchTransport;
+  proxyTemplate: string; // e.g. "http://localhost:8787/?url={url}"
+  timeout: number; // milliseconds
+  rules: RoutingRule[];
+}
+
+// Limits for feed articles; undefined means unlimited, and 0 in a per-feed policy disables the global limit
+interface RetentionPolicy {
+  maxItems?: number; // newest articles kept per feed
+  readMaxAgeDays?: number; // read articles older than this are deleted
+}
+
+type FeedRuleField = 'title' | 'author' | 'content' | 'any';
+type FeedRuleAction = 'hide' | 'mark-read' | 'tag' | 'star';
+
+interface FeedRule {
+  id: string;
+  enabled: boolean;
+  feedId?: string; // undefined applies the rule to every feed
+  field: FeedRuleField;
+  pattern: string; // plain text, or a regular expression when written as /pattern/flags
+  negate: boolean; // act on items that do NOT match, e.g. "only keep items by author X"
+  action: FeedRuleAction;
+  tag?: string;
+}
+
+interface ReaderSettings {
+  fontSize: number; // pixels
+  width: 'narrow' | 'medium' | 'wide';
+  fontFamily: 'serif' | 'sans';
+}
+
+const DEFAULT_READER_SETTINGS: ReaderSettings = {
+  fontSize: 18,
+  width: 'medium',
+  fontFamily: 'serif'
+};
+
+const DEFAULT_FETCH_SETTINGS: FetchSettings = {
+  defaultTransport: 'direct',
+  proxyTemplate: 'http://localhost:8787/?url={url}',
+  timeout: 15000,
+  rules: []
+};
+
+export class AppSettings {
+  static isDemoMode(): boolean {
+    return localStorage.getItem('demo_mode') === 'true';
+  }
+
+  static setDemoMode(enabled: boolean) {
+    localStorage.setItem('demo_mode', String(enabled));
+  }
+
+  static isReadOnScroll(): boolean {
+    return localStorage.getItem('read_on_scroll') !== 'false';
+  }
+
+  static setReadOnScroll(enabled: boolean) {
+    localStorage.setItem('read_on_scroll', String(enabled));
+  }
+
+  // Download the images of articles saved to the knowledge store so they survive the original site
+  static isImageArchiving(): boolean {
+    return localStorage.getItem('archive_images') === 'true';
+  }
+
+  static setImageArchiving(enabled: boolean) {
+    localStorage.setItem('archive_images', String(enabled));
+  }
+
+  // Keep a single-file copy of each page saved from the URL Fetcher, next to its Markdown
+  static isPageSnapshots(): boolean {
+    return localStorage.getItem('page_snapshots') === 'true';
+  }
+
+  static setPageSnapshots(enabled: boolean) {
+    localStorage.setItem('page_snapshots', String(enabled));
+  }
+
+  static getFetchSettings(): FetchSettings {
+    const saved = localStorage.getItem('fetch_settings');
+    return saved ? { ...DEFAULT_FETCH_SETTINGS, ...JSON.parse(saved) } : DEFAULT_FETCH_SETTINGS;
+  }
+
+  static saveFetchSettings(settings: FetchSettings) {
+    localStorage.setItem('fetch_settings', JSON.stringify(settings));
+  }
+
+  static getReaderSettings(): ReaderSettings {
+    const saved = localStorage.getItem('reader_settings');
+    return saved ? { ...DEFAULT_READER_SETTINGS, ...JSON.parse(saved) } : DEFAULT_READER_SETTINGS;
+  }
+
+  static saveReaderSettings(settings: ReaderSettings) {
+    localStorage.setItem('reader_settings', JSON.stringify(settings));
+  }
+
+  static getFeedRules(): FeedRule[] {
+    const saved = localStorage.getItem('feed_rules');
+    return saved ? JSON.parse(saved) : [];
+  }
+
+  static saveFeedRules(rules: FeedRule[]) {
+    localStorage.setItem('feed_rules', JSON.stringify(rules));
+  }
+
+  static getRetentionPolicy(): RetentionPolicy {
+    const saved = localStorage.getItem('retention_policy');
+    return saved ? JSON.parse(saved) : {};
+  }
+
+  static saveRetentionPolicy(policy: RetentionPolicy) {
+    localStorage.setItem('retention_policy', JSON.stringify(policy));
+  }
+}
+
+export type {
+  FetchTransport,
+  RoutingRule,
+  FetchSettings,
+  RetentionPolicy,
+  ReaderSettings,
+  FeedRule,
+  FeedRuleField,
+  FeedRuleAction
+};
@@ -0,0 +1,111 @@
+import { LinkResolver } from './linkResolver';
+import { ImageArchive } from './imageArchive';
+
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'cite', 'code', 'dd', 'del', 'details', 'div', 'dl', 'dt',
+  'em', 'figcaption', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'ins', 'kbd', 'li',
+  'mark', 'ol', 'p', 'picture', 'pre', 'q', 's', 'small', 'source', 'span', 'strong', 'sub', 'summary', 'sup',
+  'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'time', 'tr', 'u', 'ul'
+]);
+
+// Elements dropped together with everything inside them
+const DROPPED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'form', 'input', 'button', 'select', 'textarea', 'noscript', 'template', 'svg', 'math']);
+
+const ALLOWED_ATTRIBUTES = new Set(['href', 'src', 'srcset', 'alt', 'title', 'width', 'height', 'colspan', 'rowspan', 'datetime', 'cite', 'type', 'media', 'sizes']);
+const URL_ATTRIBUTES = new Set(['href', 'src', 'cite']);
+
+const WORDS_PER_MINUTE = 230;
+const EXCERPT_MAX_LENGTH = 600; // characters of text; anything shorter is treated as a teaser
+
+export class ArticleContent {
+  // Keeps a safe subset of HTML: no scripts, event handlers, inline styles or javascript: URLs.
+  // Relative links and images are resolved against the article URL, lazy-loaded images included.
+  static sanitize(html: string, baseUrl?: string): string {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    this.sanitizeChildren(doc.body, baseUrl);
+    return doc.body.innerHTML;
+  }
+
+  static getText(html: string): string {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    return (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+  }
+
+  static getReadingTime(html: string): number {
+    const words = this.getText(html).split(' ').filter(Boolean).length;
+    return Math.max(1, Math.round(words / WORDS_PER_MINUTE));
+  }
+
+  // Feeds that only carry a teaser are read in full from the original page instead
+  static isExcerpt(html: string): boolean {
+    return this.getText(html).length < EXCERPT_MAX_LENGTH;
+  }
+
+  private static sanitizeChildren(parent: Element, baseUrl?: string) {
+    for (const child of Array.from(parent.childNodes)) {
+      if (child.nodeType === Node.COMMENT_NODE) {
+        child.remove();
+        continue;
+      }
+      if (child.nodeType !== Node.ELEMENT_NODE) continue;
+
+      const el = child as Element;
+      const tagName = el.tagName.toLowerCase();
+      if (DROPPED_TAGS.has(tagName)) {
+        el.remove();
+        continue;
+      }
+
+      this.sanitizeChildren(el, baseUrl);
+
+      if (!ALLOWED_TAGS.has(tagName)) {
+        // Unknown wrappers (e.g. <section>, <font>) are unwrapped so their text survives
+        el.replaceWith(...Array.from(el.childNodes));
+        continue;
+      }
+
+      this.sanitizeAttributes(el, baseUrl);
+    }
+  }
+
+  private static sanitizeAttributes(el: Element, baseUrl?: string) {
+    // Lazy-loading attributes are about to be dropped, so the real image is moved into src first
+    if (baseUrl && el.tagName.toLowerCase() === 'img') LinkResolver.resolveImage(el, baseUrl);
+
+    for (const attribute of Array.from(el.attributes)) {
+      const name = attribute.name.toLowerCase();
+      if (!ALLOWED_ATTRIBUTES.has(name)) {
+        el.removeAttribute(attribute.name);
+      } else if (URL_ATTRIBUTES.has(name)) {
+        const url = this.resolveUrl(attribute.value, baseUrl);
+        if (url) {
+          el.setAttribute(name, url);
+        } else {
+          el.removeAttribute(attribute.name);
+        }
+      } else if (name === 'srcset' && baseUrl) {
+        el.setAttribute(name, LinkResolver.resolveSrcset(attribute.value, baseUrl));
+      } else if (name === 'srcset' && /javascript:/i.test(attribute.value)) {
+        el.removeAttribute(attribute.name);
+      }
+    }
+
+    if (el.tagName.toLowerCase() === 'a') {
+      el.setAttribute('target', '_blank');
+      el.setAttribute('rel', 'noopener noreferrer');
+    }
+  }
+
+  private static resolveUrl(value: string, baseUrl?: string): string | null {
+    try {
+      const url = new URL(value.trim(), baseUrl);
+      return ['http:', 'https:', 'mailto:', 'data:', ImageArchive.PROTOCOL].includes(url.protocol) &&
+        (url.protocol !== 'data:' || /^data:image\//i.test(url.href))
+        ? url.href
+        : null;
+    } catch (error) {
+      // Relative URLs without a base are kept as they are; anything else unparseable is dropped
+      return baseUrl || /^[a-z][a-z0-9+.-]*:/i.test(value.trim()) ? null : value;
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import type { Article } from './storageService';
+import { LinkResolver } from './linkResolver';
+
+type DedupCandidate = Pick<Article, 'guid' | 'url' | 'title' | 'publishDate'>;
+
+interface DedupMatch {
+  article: Article;
+  exact: boolean; // same guid or URL, rather than a similar title
+}
+
+interface ArticleCluster {
+  lead: Article;
+  members: Article[]; // the lead first, then its duplicates from other feeds
+}
+
+const TITLE_SIMILARITY = 0.8; // Jaccard index of title words
+const TITLE_MIN_WORDS = 4; // shorter titles ("Weekly links") are too generic to compare
+const TITLE_WINDOW = 3 * 86400000; // only stories published within 3 days of each other
+
+const titleWords = (title: string) => new Set(
+  title.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(word => word.length > 1)
+);
+
+const similarity = (a: Set<string>, b: Set<string>) => {
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+export class ArticleDedup {
+  // Same page regardless of scheme, "www.", tracking parameters, fragment or trailing slash
+  static normalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url.trim());
+      const params = [...parsed.searchParams].filter(([name]) => !LinkResolver.isTrackingParam(name));
+      const query = new URLSearchParams(params).toString();
+      const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+      return `${host}${parsed.pathname.replace(/\/+$/, '')}${query ? `?${query}` : ''}`;
+    } catch (error) {
+      return url.trim().replace(/\/+$/, '').toLowerCase();
+    }
+  }
+
+  // Publish date ranges that hold every stored story a title match could pair with these dates,
+  // merged where they overlap
+  static candidateRanges(dates: number[]): [number, number][] {
+    const ranges: [number, number][] = [];
+    [...dates].sort((a, b) => a - b).forEach(date => {
+      const last = ranges[ranges.length - 1];
+      if (last && date - TITLE_WINDOW <= last[1]) {
+        last[1] = date + TITLE_WINDOW;
+      } else {
+        ranges.push([date - TITLE_WINDOW, date + TITLE_WINDOW]);
+      }
+    });
+    return ranges;
+  }
+
+  static createIndex(articles: Article[]): DedupIndex {
+    return new DedupIndex(articles);
+  }
+
+  // Groups articles that share a cluster, keeping the list order of each cluster's first article
+  static groupClusters(articles: Article[]): ArticleCluster[] {
+    const clusters = new Map<string, ArticleCluster>();
+    for (const article of articles) {
+      const key = article.clusterId || article.id;
+      const cluster = clusters.get(key);
+      if (cluster) {
+        cluster.members.push(article);
+      } else {
+        clusters.set(key, { lead: article, members: [article] });
+      }
+    }
+    return [...clusters.values()];
+  }
+}
+
+// Lookup of stored articles by guid, normalized URL and title; callers add each new item they save
+class DedupIndex {
+  private byGuid = new Map<string, Article>();
+  private byUrl = new Map<string, Article>();
+  private titles: { article: Article; words: Set<string> }[] = [];
+
+  constructor(articles: Article[]) {
+    articles.forEach(article => this.add(article));
+  }
+
+  add(article: Article) {
+    // Bare guids such as "1234" are only unique within their own feed
+    if (article.guid && /[:/]/.test(article.guid)) this.byGuid.set(article.guid, article);
+    if (article.url) this.byUrl.set(ArticleDedup.normalizeUrl(article.url), article);
+
+    const words = titleWords(article.title);
+    if (words.size >= TITLE_MIN_WORDS) this.titles.push({ article, words });
+  }
+
+  // Exact matches (guid or URL) first, then a story with a near-identical title from around the same time
+  find(candidate: DedupCandidate): DedupMatch | undefined {
+    const exact = (candidate.guid && this.byGuid.get(candidate.guid)) ||
+      (candidate.url && this.byUrl.get(ArticleDedup.normalizeUrl(candidate.url)));
+    if (exact) return { article: exact, exact: true };
+
+    const words = titleWords(candidate.title);
+    if (words.size < TITLE_MIN_WORDS) return undefined;
+
+    const similar = this.titles.find(entry =>
+      Math.abs(entry.article.publishDate - candidate.publishDate) <= TITLE_WINDOW &&
+      similarity(entry.words, words) >= TITLE_SIMILARITY
+    );
+    return similar ? { article: similar.article, exact: false } : undefined;
+  }
+}
+
+export type { ArticleCluster, DedupIndex, DedupMatch };
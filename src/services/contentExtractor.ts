@@ -0,0 +1,348 @@
+import { LinkResolver } from './linkResolver';
+
+interface ExtractedContent {
+  content: Element; // detached container holding the article body
+  title: string;
+  byline: string;
+  siteName: string;
+  excerpt: string;
+  leadImage?: string; // absolute URL
+  publishDate?: number; // ms since epoch
+}
+
+interface PageMetadata {
+  title?: string;
+  byline?: string;
+  siteName?: string;
+  excerpt?: string;
+  leadImage?: string;
+  publishDate?: string;
+}
+
+// Elements that never hold article text
+const STRIP_TAGS = 'script, style, noscript, template, iframe, object, embed, form, button, input, select, textarea, nav, header, aside, footer, dialog, svg, canvas';
+const STRIP_ROLES = '[role="navigation"], [role="banner"], [role="complementary"], [role="contentinfo"], [role="dialog"], [role="alert"], [hidden], [aria-hidden="true"]';
+
+// Class and id names of page furniture: cookie banners, share bars, comment threads and the like
+const UNLIKELY = /-ad-|ad-break|agegate|banner|breadcrumb|combx|comment|community|consent|cookie|cover-wrap|disqus|extra|gdpr|header|legends|menu|modal|newsletter|pager|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|tracking|widget/i;
+const MAYBE = /and|article|body|column|content|main|shadow/i;
+
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE = /-ad-|banner|byline|combx|comment|com-|contact|cookie|consent|foot|footer|footnote|gdpr|masthead|media|meta|modal|newsletter|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|social|sponsor|shopping|subscribe|tags|tool|widget/i;
+
+// Tags scored as paragraphs; divs count too when they only hold inline content
+const PARAGRAPH_TAGS = new Set(['P', 'PRE', 'TD', 'BLOCKQUOTE', 'SECTION', 'H2', 'H3', 'H4', 'H5', 'H6']);
+const BLOCK_CHILDREN = 'a, blockquote, dl, div, img, ol, p, pre, table, ul, section, article, figure';
+
+type JsonLdNode = Record<string, unknown>;
+
+const ARTICLE_TYPES = /Article|BlogPosting|Report|Posting|Review/;
+
+const MIN_PARAGRAPH_LENGTH = 25;
+const MIN_ARTICLE_LENGTH = 250; // below this the scored candidate is probably a teaser, not the article
+
+const normalize = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+const textOf = (element: Element) => normalize(element.textContent);
+
+const attributeNames = (element: Element) => `${element.getAttribute('class') || ''} ${element.id || ''}`;
+
+const classWeight = (element: Element) => {
+  const names = attributeNames(element);
+  let weight = 0;
+  if (NEGATIVE.test(names)) weight -= 25;
+  if (POSITIVE.test(names)) weight += 25;
+  return weight;
+};
+
+const linkDensity = (element: Element) => {
+  const length = textOf(element).length;
+  if (length === 0) return 0;
+  const linkLength = Array.from(element.querySelectorAll('a'))
+    .reduce((sum, link) => sum + textOf(link).length, 0);
+  return linkLength / length;
+};
+
+const tagWeight = (element: Element) => {
+  switch (element.tagName) {
+    case 'DIV':
+    case 'ARTICLE':
+    case 'MAIN':
+      return 5;
+    case 'PRE':
+    case 'TD':
+    case 'BLOCKQUOTE':
+      return 3;
+    case 'ADDRESS':
+    case 'OL':
+    case 'UL':
+    case 'DL':
+    case 'DD':
+    case 'DT':
+    case 'LI':
+      return -3;
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6':
+    case 'TH':
+      return -5;
+    default:
+      return 0;
+  }
+};
+
+const parseDate = (value: string | undefined) => {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+export class ContentExtractor {
+  // Finds the article in a parsed page by scoring blocks on text length, commas, link density and class names.
+  // The document is modified in the process, so pass one that can be thrown away.
+  // Links and images in the content come back absolute, with tracking parameters removed from links.
+  static extract(doc: Document, url: string): ExtractedContent {
+    const baseUrl = LinkResolver.getBaseUrl(doc, url);
+    const metadata = { ...this.getMetaTags(doc), ...this.getJsonLd(doc) };
+    const title = this.getTitle(doc, metadata);
+    const byline = metadata.byline || this.getBylineFromPage(doc);
+
+    this.removeClutter(doc);
+    const content = this.findContent(doc);
+    this.cleanContent(content);
+    LinkResolver.resolveElement(content, baseUrl, { stripTracking: true });
+    const leadImage = metadata.leadImage
+      ? LinkResolver.resolve(metadata.leadImage, baseUrl)
+      : content.querySelector('img[src]')?.getAttribute('src');
+
+    return {
+      content,
+      title,
+      byline,
+      siteName: metadata.siteName || '',
+      excerpt: metadata.excerpt || this.getExcerpt(content),
+      leadImage: leadImage || undefined,
+      publishDate: parseDate(metadata.publishDate || doc.querySelector('time[datetime]')?.getAttribute('datetime') || undefined)
+    };
+  }
+
+  private static getMetaTags(doc: Document): PageMetadata {
+    const meta = (...names: string[]) => {
+      for (const name of names) {
+        const value = doc.querySelector(`meta[property="${name}"], meta[name="${name}"], meta[itemprop="${name}"]`)
+          ?.getAttribute('content');
+        if (value?.trim()) return value.trim();
+      }
+      return undefined;
+    };
+
+    const author = meta('author', 'article:author', 'parsely-author', 'dc.creator', 'twitter:creator');
+    return this.compact({
+      title: meta('og:title', 'twitter:title', 'parsely-title', 'dc.title'),
+      // Facebook puts a profile URL in article:author, which is no use as a name
+      byline: author && !/^https?:\/\//.test(author) ? author : undefined,
+      siteName: meta('og:site_name', 'application-name', 'publisher'),
+      excerpt: meta('og:description', 'twitter:description', 'description', 'dc.description'),
+      leadImage: meta('og:image', 'og:image:url', 'twitter:image', 'twitter:image:src'),
+      publishDate: meta('article:published_time', 'datePublished', 'parsely-pub-date', 'date', 'dc.date', 'pubdate')
+    });
+  }
+
+  // Schema.org data is usually the most accurate source where a site provides it
+  private static getJsonLd(doc: Document): PageMetadata {
+    for (const script of Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))) {
+      let data: unknown;
+      try {
+        data = JSON.parse(script.textContent || '');
+      } catch (error) {
+        continue;
+      }
+
+      const nodes = (Array.isArray(data) ? data : [data])
+        .filter((item): item is JsonLdNode => Boolean(item) && typeof item === 'object')
+        .flatMap(item => Array.isArray(item['@graph']) ? item['@graph'] as JsonLdNode[] : [item]);
+      const article = nodes.find(item => {
+        const type = item?.['@type'];
+        return (Array.isArray(type) ? type : [type]).some(name => typeof name === 'string' && ARTICLE_TYPES.test(name));
+      });
+      if (!article) continue;
+
+      const name = (value: unknown): string | undefined => {
+        if (typeof value === 'string') return value;
+        if (Array.isArray(value)) return value.map(name).filter(Boolean).join(', ') || undefined;
+        if (value && typeof value === 'object' && 'name' in value) return name(value.name);
+        return undefined;
+      };
+      const image = (value: unknown): string | undefined => {
+        if (typeof value === 'string') return value;
+        if (Array.isArray(value)) return image(value[0]);
+        if (value && typeof value === 'object' && 'url' in value) return image(value.url);
+        return undefined;
+      };
+
+      return this.compact({
+        title: name(article.headline) || name(article.name),
+        byline: name(article.author),
+        siteName: name(article.publisher),
+        excerpt: name(article.description),
+        leadImage: image(article.image),
+        publishDate: name(article.datePublished)
+      });
+    }
+    return {};
+  }
+
+  private static compact(metadata: PageMetadata): PageMetadata {
+    return Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => value && normalize(value))
+        .map(([key, value]) => [key, normalize(value)])
+    );
+  }
+
+  // "Story headline | Site name" loses the site name when the rest still reads like a headline
+  private static getTitle(doc: Document, metadata: PageMetadata): string {
+    if (metadata.title) return metadata.title;
+
+    const title = normalize(doc.querySelector('title')?.textContent);
+    const parts = title.split(/\s+[|\-–—»:]\s+/);
+    if (parts.length > 1 && parts[0].split(' ').length >= 3) return parts[0];
+    return title || textOf(doc.querySelector('h1') || doc.createElement('h1')) || 'Untitled Article';
+  }
+
+  private static getBylineFromPage(doc: Document): string {
+    const byline = doc.querySelector('[rel="author"], [itemprop="author"], .byline, .author, .post-author');
+    const text = byline ? textOf(byline).replace(/^by\s+/i, '') : '';
+    return text.length > 0 && text.length < 100 ? text : '';
+  }
+
+  private static getExcerpt(content: Element): string {
+    const paragraph = Array.from(content.querySelectorAll('p'))
+      .map(textOf)
+      .find(text => text.length >= MIN_PARAGRAPH_LENGTH);
+    return paragraph || '';
+  }
+
+  private static removeClutter(doc: Document) {
+    doc.querySelectorAll(`${STRIP_TAGS}, ${STRIP_ROLES}`).forEach(element => element.remove());
+
+    doc.querySelectorAll('body *').forEach(element => {
+      if (!element.isConnected || ['BODY', 'ARTICLE', 'MAIN', 'A'].includes(element.tagName)) return;
+      if (element.closest('table, pre, code')) return;
+
+      const names = attributeNames(element);
+      const style = element.getAttribute('style') || '';
+      if (/display:\s*none|visibility:\s*hidden/i.test(style) ||
+          (UNLIKELY.test(names) && !MAYBE.test(names))) {
+        element.remove();
+      }
+    });
+  }
+
+  private static findContent(doc: Document): Element {
+    const scores = new Map<Element, number>();
+    const initialize = (element: Element) => {
+      if (!scores.has(element)) scores.set(element, tagWeight(element) + classWeight(element));
+    };
+
+    for (const element of Array.from(doc.body?.querySelectorAll('*') || [])) {
+      const isParagraph = PARAGRAPH_TAGS.has(element.tagName) ||
+        (element.tagName === 'DIV' && !element.querySelector(BLOCK_CHILDREN));
+      if (!isParagraph) continue;
+
+      const text = textOf(element);
+      if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+      // Longer text with more clauses is more likely prose than a caption or a link list
+      const score = 1 + (text.match(/[,，、]/g) || []).length + Math.min(Math.floor(text.length / 100), 3);
+
+      let ancestor = element.parentElement;
+      for (let level = 0; ancestor && ancestor !== doc.documentElement && level < 3; level++) {
+        initialize(ancestor);
+        const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+        scores.set(ancestor, (scores.get(ancestor) || 0) + score / divider);
+        ancestor = ancestor.parentElement;
+      }
+    }
+
+    let best: Element | null = null;
+    let bestScore = 0;
+    scores.forEach((score, element) => {
+      const adjusted = score * (1 - linkDensity(element));
+      scores.set(element, adjusted);
+      if (adjusted > bestScore) {
+        best = element;
+        bestScore = adjusted;
+      }
+    });
+
+    const content = doc.createElement('div');
+    const top = best as Element | null;
+    if (!top || top === doc.body || textOf(top).length < MIN_ARTICLE_LENGTH) {
+      const fallback = doc.querySelector('article, main, [itemprop="articleBody"]') || doc.body;
+      if (fallback) content.append(...Array.from(fallback.childNodes));
+      return content;
+    }
+
+    // Articles split across sibling blocks (intro, body, figures) are joined back up
+    const threshold = Math.max(10, bestScore * 0.2);
+    const topWeight = classWeight(top);
+    for (const sibling of Array.from(top.parentElement?.children || [top])) {
+      if (sibling === top) {
+        content.append(sibling);
+        continue;
+      }
+
+      let bonus = 0;
+      if (topWeight > 0 && sibling.getAttribute('class') === top.getAttribute('class')) bonus = bestScore * 0.2;
+
+      const text = textOf(sibling);
+      const density = linkDensity(sibling);
+      const append = (scores.get(sibling) || 0) + bonus >= threshold ||
+        (sibling.tagName === 'P' && text.length > 80 && density < 0.25) ||
+        (sibling.tagName === 'P' && text.length > 0 && density === 0 && /\.( |$)/.test(text));
+      if (append) content.append(sibling);
+    }
+
+    return content;
+  }
+
+  // Drops blocks inside the article that look like link lists or galleries; the blocks chosen by scoring stay
+  private static cleanContent(content: Element) {
+    const blocks = Array.from(content.querySelectorAll('div, section, ul, ol, table, figure')).reverse();
+    for (const block of blocks) {
+      if (!block.isConnected || block.parentElement === content || block.closest('pre, code')) continue;
+
+      const text = textOf(block);
+      const weight = classWeight(block);
+      const density = linkDensity(block);
+      if (weight < 0 && density > 0.2) {
+        block.remove();
+        continue;
+      }
+      if (text.split(',').length > 10) continue;
+
+      const paragraphs = block.querySelectorAll('p').length;
+      const images = block.querySelectorAll('img').length;
+      const items = block.querySelectorAll('li').length;
+      const isList = block.tagName === 'UL' || block.tagName === 'OL';
+      const remove = (images > 1 && paragraphs / images < 0.5 && block.tagName !== 'FIGURE') ||
+        (!isList && items > paragraphs + 10) ||
+        (!isList && block.tagName !== 'TABLE' && text.length < MIN_PARAGRAPH_LENGTH && images === 0 &&
+          !block.querySelector('pre, table, video, audio')) ||
+        (weight < 25 && density > 0.2 && !isList) ||
+        (isList && density > 0.5) ||
+        (weight >= 25 && density > 0.5);
+      if (remove) block.remove();
+    }
+
+    // Headings that are only links are usually "related story" teasers
+    content.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach(heading => {
+      if (classWeight(heading) < 0 || (textOf(heading) && linkDensity(heading) > 0.5)) heading.remove();
+    });
+  }
+}
+
+export type { ExtractedContent };
@@ -0,0 +1,83 @@
+import { fetchBlob, fetchText } from './fetchClient';
+
+const ICON_SIZE = 32;
+const MAX_RAW_SIZE = 65536; // icons that can't be resized are only stored when this small
+
+export class FaviconService {
+  // Tries the feed's own image, then the site's <link rel="icon">, then /favicon.ico. A relative or
+  // malformed site URL is read against the feed URL.
+  static async resolve(siteUrl: string | undefined, feedImage: string | undefined, feedUrl: string): Promise<string | undefined> {
+    const site = this.absolute(siteUrl || '/', feedUrl) || this.absolute('/', feedUrl);
+    if (!site) return undefined;
+
+    const candidates: string[] = [];
+    const feedIcon = feedImage && this.absolute(feedImage, site);
+    if (feedIcon) candidates.push(feedIcon);
+
+    try {
+      candidates.push(...await this.findLinkedIcons(site));
+    } catch (error) {
+      // The site may be unreachable even when the feed isn't; fall back to /favicon.ico
+    }
+    const fallback = this.absolute('/favicon.ico', site);
+    if (fallback) candidates.push(fallback);
+
+    for (const candidate of [...new Set(candidates)]) {
+      try {
+        const dataUrl = await this.toDataUrl(await fetchBlob(candidate, { timeout: 8000 }));
+        if (dataUrl) return dataUrl;
+      } catch (error) {
+        // Try the next candidate
+      }
+    }
+
+    return undefined;
+  }
+
+  private static async findLinkedIcons(siteUrl: string): Promise<string[]> {
+    const html = await fetchText(siteUrl, { accept: 'text/html', timeout: 8000 });
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const baseUrl = this.absolute(doc.querySelector('base[href]')?.getAttribute('href') || '', siteUrl) || siteUrl;
+
+    // Prefer small square icons over apple-touch-icons
+    return Array.from(doc.querySelectorAll('link[rel][href]'))
+      .map(link => ({ rel: (link.getAttribute('rel') || '').toLowerCase(), href: link.getAttribute('href') || '' }))
+      .filter(link => link.rel.split(/\s+/).includes('icon') || link.rel.includes('apple-touch-icon'))
+      .sort((a, b) => Number(a.rel.includes('apple')) - Number(b.rel.includes('apple')))
+      .map(link => this.absolute(link.href, baseUrl))
+      .filter((url): url is string => Boolean(url));
+  }
+
+  private static absolute(url: string, base: string): string | undefined {
+    try {
+      return new URL(url, base).href;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  // Downscales to a small PNG when the browser can decode the image, otherwise keeps small originals as-is
+  private static async toDataUrl(blob: Blob): Promise<string | undefined> {
+    if (blob.size === 0 || (blob.type && !blob.type.startsWith('image/') && blob.type !== 'application/octet-stream')) {
+      return undefined;
+    }
+
+    try {
+      const bitmap = await createImageBitmap(blob);
+      const canvas = document.createElement('canvas');
+      canvas.width = ICON_SIZE;
+      canvas.height = ICON_SIZE;
+      canvas.getContext('2d')?.drawImage(bitmap, 0, 0, ICON_SIZE, ICON_SIZE);
+      bitmap.close();
+      return canvas.toDataURL('image/png');
+    } catch (error) {
+      if (blob.size > MAX_RAW_SIZE || !blob.type.startsWith('image/')) return undefined;
+      return new Promise((resolve) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => resolve(undefined);
+        reader.readAsDataURL(blob);
+      });
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import type { Feed } from './storageService';
+
+// Nested folders are stored as a single category path, e.g. "Tech / JavaScript"
+export const CATEGORY_SEPARATOR = ' / ';
+
+interface CategoryNode {
+  name: string;
+  path: string;
+  feeds: Feed[];
+  children: CategoryNode[];
+}
+
+export const isInCategory = (category: string, path: string) => {
+  return category === path || category.startsWith(path + CATEGORY_SEPARATOR);
+};
+
+export const buildCategoryTree = (feeds: Feed[]): CategoryNode[] => {
+  const root: CategoryNode = { name: '', path: '', feeds: [], children: [] };
+
+  for (const feed of feeds) {
+    const segments = (feed.category || 'General').split(CATEGORY_SEPARATOR).map(part => part.trim()).filter(Boolean);
+    let node = root;
+
+    for (const segment of segments.length > 0 ? segments : ['General']) {
+      const path = node.path ? node.path + CATEGORY_SEPARATOR + segment : segment;
+      let child = node.children.find(candidate => candidate.name === segment);
+      if (!child) {
+        child = { name: segment, path, feeds: [], children: [] };
+        node.children.push(child);
+      }
+      node = child;
+    }
+
+    node.feeds.push(feed);
+  }
+
+  const sortTree = (nodes: CategoryNode[]) => {
+    nodes.sort((a, b) => a.name.localeCompare(b.name));
+    nodes.forEach(node => {
+      node.feeds.sort((a, b) => a.title.localeCompare(b.title));
+      sortTree(node.children);
+    });
+  };
+  sortTree(root.children);
+
+  return root.children;
+};
+
+export type { CategoryNode };
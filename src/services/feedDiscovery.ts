@@ -0,0 +1,106 @@
+import { RSSParser, type RSSFeed } from './rssParser';
+import { AppSettings } from './appSettings';
+import { FetchError, fetchText } from './fetchClient';
+
+interface DiscoveredFeed {
+  url: string;
+  title: string;
+  type: string;
+  feed?: RSSFeed; // present when the feed was already fetched during discovery
+}
+
+const FEED_LINK_TYPES = [
+  'application/rss+xml',
+  'application/atom+xml',
+  'application/feed+json',
+  'application/json',
+  'application/rdf+xml'
+];
+
+const COMMON_FEED_PATHS = ['feed', 'rss.xml', 'atom.xml', 'feed.xml', 'index.xml', 'rss', 'feed.json'];
+const PROBE_BATCH_SIZE = 3;
+const PROBE_TIMEOUT = 3000;
+
+export class FeedDiscovery {
+  // Returns the URL itself if it is a feed, otherwise the feeds the page advertises or that live at common paths
+  static async discover(url: string): Promise<DiscoveredFeed[]> {
+    if (AppSettings.isDemoMode()) {
+      const feed = await RSSParser.fetchAndParse(url);
+      return [{ url, title: feed.title, type: feed.format, feed }];
+    }
+
+    const text = await fetchText(url, {
+      accept: 'application/rss+xml, application/atom+xml, application/feed+json, text/html;q=0.9, */*;q=0.8'
+    });
+
+    try {
+      const feed = RSSParser.parse(text, url);
+      return [{ url, title: feed.title, type: feed.format, feed }];
+    } catch (error) {
+      if (!(error instanceof FetchError && error.kind === 'not-a-feed')) throw error;
+    }
+
+    const doc = new DOMParser().parseFromString(text, 'text/html');
+    const linked = this.findLinkedFeeds(doc, url);
+    if (linked.length > 0) return linked;
+
+    const probed = await this.probeCommonPaths(url);
+    if (probed.length > 0) return probed;
+
+    throw new FetchError('not-a-feed', url, 'No feeds were found on this page');
+  }
+
+  static findLinkedFeeds(doc: Document, pageUrl: string): DiscoveredFeed[] {
+    const baseUrl = doc.querySelector('base[href]')?.getAttribute('href') || pageUrl;
+    const pageTitle = doc.querySelector('title')?.textContent?.trim() || '';
+    const feeds: DiscoveredFeed[] = [];
+
+    for (const link of Array.from(doc.querySelectorAll('link[rel~="alternate"][href]'))) {
+      const type = (link.getAttribute('type') || '').toLowerCase().split(';')[0].trim();
+      if (!FEED_LINK_TYPES.includes(type)) continue;
+
+      let url: string;
+      try {
+        url = new URL(link.getAttribute('href') as string, new URL(baseUrl, pageUrl)).href;
+      } catch (error) {
+        continue;
+      }
+
+      if (feeds.some(feed => feed.url === url)) continue;
+      feeds.push({ url, title: link.getAttribute('title') || pageTitle || url, type });
+    }
+
+    return feeds;
+  }
+
+  private static async probeCommonPaths(pageUrl: string): Promise<DiscoveredFeed[]> {
+    const page = new URL(pageUrl);
+    const bases = [new URL('/', page).href];
+    const directory = new URL('./', page).href;
+    if (!bases.includes(directory)) bases.unshift(directory);
+
+    const candidates = [...new Set(bases.flatMap(base => COMMON_FEED_PATHS.map(path => new URL(path, base).href)))];
+
+    // A few at a time so a site without feeds doesn't get a burst of 404s, stopping at the first batch that finds one
+    for (let start = 0; start < candidates.length; start += PROBE_BATCH_SIZE) {
+      const batch = candidates.slice(start, start + PROBE_BATCH_SIZE);
+      const results = await Promise.all(batch.map(candidate => this.probe(candidate)));
+      const found = results.find((result): result is DiscoveredFeed => result !== null);
+      if (found) return [found];
+    }
+
+    return [];
+  }
+
+  private static async probe(url: string): Promise<DiscoveredFeed | null> {
+    try {
+      const feed = RSSParser.parse(await fetchText(url, { timeout: PROBE_TIMEOUT }), url);
+      return { url, title: feed.title, type: feed.format, feed };
+    } catch (error) {
+      // Missing or invalid candidates are expected while probing
+      return null;
+    }
+  }
+}
+
+export type { DiscoveredFeed };
@@ -0,0 +1,198 @@
+import { RSSParser, type RSSItem } from './rssParser';
+import { storageService, type Feed, type Article } from './storageService';
+import { describeFetchError } from './fetchClient';
+import { FaviconService } from './faviconService';
+import { retentionService } from './retentionService';
+import { URLToMarkdownConverter } from './urlToMarkdown';
+import { ArticleContent } from './articleContent';
+import { FeedRuleEngine } from './feedRules';
+import { AppSettings } from './appSettings';
+import { ArticleDedup } from './articleDedup';
+
+interface FeedRefreshResult {
+  feedId: string;
+  feedTitle: string;
+  newArticles: number;
+  notModified?: boolean;
+  error?: string;
+}
+
+export class FeedRefresher {
+  private static readonly FAVICON_RETRY = 604800000; // 7 days
+
+  // The feed is read again by id and only the fields the refresh owns are patched onto it, so edits
+  // and unsubscribes made while a refresh was waiting its turn aren't undone
+  static async refreshFeed(feed: Feed): Promise<FeedRefreshResult> {
+    try {
+      const current = await storageService.getFeed(feed.id);
+      if (!current) {
+        return { feedId: feed.id, feedTitle: feed.title, newArticles: 0 };
+      }
+
+      const result = await RSSParser.fetchConditional(current.url, current);
+      const cacheFields = {
+        lastUpdated: Date.now(),
+        etag: result.etag,
+        lastModified: result.lastModified,
+        cacheMaxAge: result.cacheMaxAge
+      };
+
+      if (result.notModified || !result.feed) {
+        await retentionService.pruneFeed(current);
+        await storageService.patchFeed(current.id, cacheFields);
+        return { feedId: current.id, feedTitle: current.title, newArticles: 0, notModified: true };
+      }
+
+      const newArticles = await this.saveNewItems(current, result.feed.items);
+      await retentionService.pruneFeed(current);
+
+      const siteUrl = this.resolveSiteUrl(result.feed.link, current.url) || current.siteUrl;
+      await storageService.patchFeed(current.id, {
+        ...cacheFields,
+        siteUrl,
+        ttl: result.feed.ttl,
+        syndicationInterval: result.feed.syndicationInterval
+      });
+
+      // The icon lookup runs after the refresh is stored, so a slow or broken site can't fail it
+      await this.fetchFavicon({ ...current, siteUrl }, result.feed.image)
+        .catch(error => console.error(`Failed to fetch icon for ${current.url}:`, error));
+
+      return { feedId: current.id, feedTitle: current.title, newArticles };
+    } catch (error) {
+      console.error(`Failed to refresh feed ${feed.url}:`, error);
+      return {
+        feedId: feed.id,
+        feedTitle: feed.title,
+        newArticles: 0,
+        error: describeFetchError(error).description
+      };
+    }
+  }
+
+  // Resolves and stores the icon for a newly added feed
+  static async fetchFavicon(feed: Feed, feedImage?: string): Promise<void> {
+    const fields = await this.faviconFields(feed, feedImage);
+    if (Object.keys(fields).length > 0) {
+      await storageService.patchFeed(feed.id, fields);
+    }
+  }
+
+  // Feeds may give their site link relative to the feed URL; links that can't be read are dropped
+  static resolveSiteUrl(link: string | undefined, feedUrl: string): string | undefined {
+    if (!link) return undefined;
+    try {
+      return new URL(link, feedUrl).href;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  // Icons are looked up until one is found, at most once a week
+  private static async faviconFields(feed: Feed, feedImage?: string): Promise<Partial<Feed>> {
+    if (feed.favicon || (feed.faviconCheckedAt && Date.now() - feed.faviconCheckedAt < this.FAVICON_RETRY)) {
+      return {};
+    }
+
+    const favicon = await FaviconService.resolve(feed.siteUrl, feedImage, feed.url);
+    return { favicon, faviconCheckedAt: Date.now() };
+  }
+
+  // Stores only the items that aren't already known, matching by guid first and then by link;
+  // items removed by retention count as known. Filter rules can hide, mark, tag or star new items.
+  // Stories already stored from another feed, or saved earlier in this batch, are clustered with it,
+  // and articles kept after unsubscribing from this feed are reattached when it is added again. Only
+  // the feed's own articles and possible duplicates are read, through their indexes.
+  static async saveNewItems(feed: Feed, items: RSSItem[]): Promise<number> {
+    const ownArticles = await storageService.getArticlesByFeed(feed.id);
+    const removed = feed.removedItems || [];
+    const knownGuids = new Set([...ownArticles.map(article => article.guid).filter(Boolean), ...removed]);
+    const knownLinks = new Set(
+      [...ownArticles.map(article => article.url).filter(Boolean), ...removed].map(url => ArticleDedup.normalizeUrl(url))
+    );
+    const unknown = items.filter(item =>
+      !(item.guid && knownGuids.has(item.guid)) && !(item.link && knownLinks.has(ArticleDedup.normalizeUrl(item.link)))
+    );
+    if (unknown.length === 0) return 0;
+
+    const candidates = await storageService.findArticles({
+      guids: unknown.map(item => item.guid).filter(Boolean),
+      urlKeys: unknown.map(item => item.link).filter(Boolean).map(link => ArticleDedup.normalizeUrl(link)),
+      detachedFrom: ArticleDedup.normalizeUrl(feed.url),
+      publishedWithin: ArticleDedup.candidateRanges(unknown.map(item => this.itemDate(item)))
+    });
+    const otherArticles = ArticleDedup.createIndex(candidates.filter(article => article.feedId !== feed.id));
+    const rules = AppSettings.getFeedRules();
+    let saved = 0;
+
+    for (const item of unknown) {
+      if (item.guid && knownGuids.has(item.guid)) continue;
+      if (item.link && knownLinks.has(ArticleDedup.normalizeUrl(item.link))) continue;
+      if (item.guid) knownGuids.add(item.guid);
+      if (item.link) knownLinks.add(ArticleDedup.normalizeUrl(item.link));
+
+      let article = FeedRuleEngine.apply(rules, this.itemToArticle(feed.id, item));
+      if (!article) continue;
+
+      const duplicate = otherArticles.find(article);
+      if (duplicate?.exact && !duplicate.article.feedId && duplicate.article.detachedFrom === ArticleDedup.normalizeUrl(feed.url)) {
+        await storageService.updateArticle({ ...duplicate.article, feedId: feed.id, detachedFrom: undefined });
+        continue;
+      }
+      if (duplicate) {
+        article = {
+          ...article,
+          clusterId: duplicate.article.clusterId || duplicate.article.id,
+          isRead: article.isRead || duplicate.article.isRead
+        };
+      }
+
+      if (feed.fetchFullContent && article.url) {
+        article.fullContent = await this.tryFetchFullContent(article.url);
+      }
+      const id = await storageService.saveArticle(article);
+      otherArticles.add({ ...article, id });
+      saved++;
+    }
+
+    return saved;
+  }
+
+  // The article's page run through the extractor, sanitized for display
+  static async fetchFullContent(url: string): Promise<string> {
+    const { html } = await URLToMarkdownConverter.fetchArticleHTML(url);
+    return ArticleContent.sanitize(html, url);
+  }
+
+  // A page that can't be fetched leaves the excerpt in place; the reader can retry on demand
+  private static async tryFetchFullContent(url: string): Promise<string | undefined> {
+    try {
+      return await this.fetchFullContent(url);
+    } catch (error) {
+      console.error(`Failed to fetch full content for ${url}:`, error);
+      return undefined;
+    }
+  }
+
+  private static itemDate(item: RSSItem): number {
+    return new Date(item.pubDate).getTime() || Date.now();
+  }
+
+  private static itemToArticle(feedId: string, item: RSSItem): Omit<Article, 'id'> {
+    return {
+      feedId,
+      guid: item.guid || undefined,
+      title: item.title,
+      author: item.author,
+      publishDate: this.itemDate(item),
+      content: item.content || item.description,
+      summary: item.description.substring(0, 200) + '...',
+      url: item.link,
+      isRead: false,
+      tags: [],
+      attachments: item.attachments?.length ? item.attachments : undefined
+    };
+  }
+}
+
+export type { FeedRefreshResult };
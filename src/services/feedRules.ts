@@ -0,0 +1,85 @@
+import type { FeedRule } from './appSettings';
+import type { Article } from './storageService';
+
+type RuleTarget = Omit<Article, 'id'>;
+
+interface RuleMatch {
+  rule: FeedRule;
+  articles: Article[];
+}
+
+const stripTags = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ');
+
+export class FeedRuleEngine {
+  // "/sponsored/i" is a regular expression, anything else a case-insensitive substring
+  static compile(pattern: string): RegExp | null {
+    const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    try {
+      if (regex) return new RegExp(regex[1], regex[2]);
+      return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static validate(pattern: string): string | null {
+    if (!pattern.trim()) return 'Enter some text or a /regular expression/';
+    return this.compile(pattern) ? null : 'Invalid regular expression';
+  }
+
+  static appliesTo(rule: FeedRule, feedId?: string): boolean {
+    return rule.enabled && (!rule.feedId || rule.feedId === feedId);
+  }
+
+  static matches(rule: FeedRule, article: RuleTarget): boolean {
+    const regex = this.compile(rule.pattern);
+    if (!regex || !rule.pattern.trim()) return false;
+
+    const fields = {
+      title: () => article.title,
+      author: () => article.author || '',
+      content: () => stripTags(article.fullContent || article.content),
+      any: () => [article.title, article.author || '', stripTags(article.fullContent || article.content)].join('\n')
+    };
+    return regex.test(fields[rule.field]()) !== rule.negate;
+  }
+
+  // Runs every applicable rule over an incoming item; returns null when a rule hides it
+  static apply<T extends RuleTarget>(rules: FeedRule[], article: T): T | null {
+    let result = article;
+
+    for (const rule of rules) {
+      if (!this.appliesTo(rule, article.feedId) || !this.matches(rule, result)) continue;
+
+      switch (rule.action) {
+        case 'hide':
+          return null;
+        case 'mark-read':
+          result = { ...result, isRead: true };
+          break;
+        case 'star':
+          result = { ...result, starredAt: result.starredAt || Date.now() };
+          break;
+        case 'tag':
+          if (rule.tag && !result.tags.includes(rule.tag)) {
+            result = { ...result, tags: [...result.tags, rule.tag] };
+          }
+          break;
+      }
+    }
+
+    return result;
+  }
+
+  // Which stored articles a rule would have caught, for previewing it before saving
+  static preview(rule: FeedRule, articles: Article[]): RuleMatch {
+    return {
+      rule,
+      articles: articles.filter(article =>
+        (!rule.feedId || rule.feedId === article.feedId) && article.feedId && this.matches(rule, article)
+      )
+    };
+  }
+}
+
+export type { RuleMatch };
@@ -0,0 +1,162 @@
+import { FeedRefresher, type FeedRefreshResult } from './feedRefresher';
+import { storageService, type Feed } from './storageService';
+
+interface FeedScheduleStatus {
+  nextRun: number;
+  effectiveInterval: number;
+  lastRun?: number;
+  lastError?: string;
+  failures: number;
+  isRefreshing: boolean;
+}
+
+type SchedulerListener = (results: FeedRefreshResult[]) => void;
+
+class FeedScheduler {
+  private static readonly TICK_INTERVAL = 30000; // 30 seconds
+  private static readonly STAGGER_DELAY = 5000; // 5 seconds between feeds
+  private static readonly RETRY_BASE = 60000; // 1 minute
+  private static readonly RETRY_MAX = 86400000; // 24 hours
+  private static readonly HINT_MAX = 86400000; // publisher hints never delay polling beyond 24 hours
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+  private listeners = new Set<SchedulerListener>();
+  private failures = new Map<string, { count: number; retryAt: number; error: string }>();
+  private lastRuns = new Map<string, number>();
+  private inFlight = new Set<string>();
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), FeedScheduler.TICK_INTERVAL);
+    this.tick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  subscribe(listener: SchedulerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getUpdateIntervals() {
+    return [
+      { value: 900000, name: 'Every 15 minutes' },
+      { value: 1800000, name: 'Every 30 minutes' },
+      { value: 3600000, name: 'Every hour' },
+      { value: 10800000, name: 'Every 3 hours' },
+      { value: 21600000, name: 'Every 6 hours' },
+      { value: 43200000, name: 'Every 12 hours' },
+      { value: 86400000, name: 'Daily' }
+    ];
+  }
+
+  // The user's interval, stretched to honour Cache-Control max-age, RSS <ttl> and sy:updatePeriod
+  getEffectiveInterval(feed: Feed): number {
+    const hint = Math.max(feed.cacheMaxAge || 0, feed.ttl || 0, feed.syndicationInterval || 0);
+    return Math.max(feed.updateInterval, Math.min(hint, FeedScheduler.HINT_MAX));
+  }
+
+  getStatus(feed: Feed): FeedScheduleStatus {
+    const failure = this.failures.get(feed.id);
+    const effectiveInterval = this.getEffectiveInterval(feed);
+    return {
+      nextRun: failure ? failure.retryAt : feed.lastUpdated + effectiveInterval,
+      effectiveInterval,
+      lastRun: this.lastRuns.get(feed.id),
+      lastError: failure?.error,
+      failures: failure?.count || 0,
+      isRefreshing: this.inFlight.has(feed.id)
+    };
+  }
+
+  // Drops backoff state for a feed, e.g. after it was unsubscribed or its URL changed
+  forget(feedId: string) {
+    this.failures.delete(feedId);
+    this.lastRuns.delete(feedId);
+    this.notify([]);
+  }
+
+  // Refreshes on demand (e.g. the Refresh button). Feeds the scheduler is already refreshing are
+  // skipped; their results reach subscribers when that refresh finishes.
+  async refreshNow(feeds: Feed[]): Promise<FeedRefreshResult[]> {
+    const results: FeedRefreshResult[] = [];
+
+    // Sequential on purpose: keeps us from hammering hosts that serve several feeds
+    for (const feed of feeds) {
+      const result = await this.refresh(feed);
+      if (result) results.push(result);
+    }
+
+    return results;
+  }
+
+  private recordResult(result: FeedRefreshResult) {
+    const now = Date.now();
+    this.lastRuns.set(result.feedId, now);
+
+    if (!result.error) {
+      this.failures.delete(result.feedId);
+      return;
+    }
+
+    const count = (this.failures.get(result.feedId)?.count || 0) + 1;
+    const delay = Math.min(FeedScheduler.RETRY_BASE * 2 ** (count - 1), FeedScheduler.RETRY_MAX);
+    this.failures.set(result.feedId, { count, retryAt: now + delay, error: result.error });
+  }
+
+  private async tick() {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const feeds = await storageService.getFeeds();
+      const now = Date.now();
+      const dueFeeds = feeds.filter(feed => this.getStatus(feed).nextRun <= now);
+
+      for (let i = 0; i < dueFeeds.length; i++) {
+        if (!this.timer) break;
+        if (i > 0) {
+          await new Promise(resolve => setTimeout(resolve, FeedScheduler.STAGGER_DELAY));
+        }
+
+        await this.refresh(dueFeeds[i]);
+      }
+    } catch (error) {
+      console.error('Scheduled feed polling failed:', error);
+    }
+
+    this.running = false;
+  }
+
+  // The single path to FeedRefresher, so scheduled and manual refreshes never overlap on one feed
+  private async refresh(feed: Feed): Promise<FeedRefreshResult | null> {
+    if (this.inFlight.has(feed.id)) return null;
+    this.inFlight.add(feed.id);
+    this.notify([]);
+
+    let result: FeedRefreshResult;
+    try {
+      result = await FeedRefresher.refreshFeed(feed);
+    } finally {
+      this.inFlight.delete(feed.id);
+    }
+    this.recordResult(result);
+    this.notify([result]);
+    return result;
+  }
+
+  private notify(results: FeedRefreshResult[]) {
+    this.listeners.forEach(listener => listener(results));
+  }
+}
+
+export const feedScheduler = new FeedScheduler();
+export type { FeedScheduleStatus };
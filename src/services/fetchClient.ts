@@ -0,0 +1,172 @@
+import { AppSettings, type FetchSettings, type FetchTransport } from './appSettings';
+
+type FetchErrorKind = 'network' | 'http' | 'timeout' | 'not-a-feed' | 'parse';
+
+interface FetchTextOptions {
+  timeout?: number;
+  accept?: string;
+  headers?: Record<string, string>;
+}
+
+interface FetchResult {
+  status: number;
+  text: string;
+  headers: Headers;
+}
+
+export class FetchError extends Error {
+  readonly kind: FetchErrorKind;
+  readonly url: string;
+  readonly status?: number;
+  readonly viaProxy: boolean;
+
+  constructor(kind: FetchErrorKind, url: string, message: string, status?: number, viaProxy = false) {
+    super(message);
+    this.name = 'FetchError';
+    this.kind = kind;
+    this.url = url;
+    this.status = status;
+    this.viaProxy = viaProxy;
+  }
+}
+
+interface ResolvedRoute {
+  transport: FetchTransport;
+  requestUrl: string;
+  timeout: number;
+}
+
+const matchesDomain = (host: string, domain: string) => {
+  const normalized = domain.trim().toLowerCase().replace(/^\*\./, '');
+  return normalized !== '' && (host === normalized || host.endsWith(`.${normalized}`));
+};
+
+// Picks the transport for a URL: the first matching routing rule wins, otherwise the default applies
+export const resolveRoute = (url: string, settings: FetchSettings = AppSettings.getFetchSettings()): ResolvedRoute => {
+  let host = '';
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch (error) {
+    // Invalid URLs fall through to the default route and fail in fetch()
+  }
+
+  const rule = settings.rules.find(candidate => matchesDomain(host, candidate.domain));
+  const transport = rule?.transport || settings.defaultTransport;
+  const timeout = rule?.timeout || settings.timeout;
+
+  if (transport === 'proxy' && settings.proxyTemplate) {
+    const requestUrl = settings.proxyTemplate.includes('{url}')
+      ? settings.proxyTemplate.replace('{url}', encodeURIComponent(url))
+      : settings.proxyTemplate + encodeURIComponent(url);
+    return { transport, requestUrl, timeout };
+  }
+
+  return { transport: 'direct', requestUrl: url, timeout };
+};
+
+const send = async (url: string, options: FetchTextOptions): Promise<Response> => {
+  const route = resolveRoute(url);
+  const timeout = options.timeout ?? route.timeout;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+
+  let response: Response;
+  try {
+    response = await fetch(route.requestUrl, {
+      signal: controller.signal,
+      headers: { ...(options.accept ? { Accept: options.accept } : {}), ...options.headers }
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new FetchError('timeout', url, `No response within ${Math.round(timeout / 1000)} seconds`, undefined, route.transport === 'proxy');
+    }
+    // Browsers report CORS rejections and connection failures as the same opaque TypeError
+    const message = error instanceof Error ? error.message : String(error);
+    throw new FetchError('network', url, message, undefined, route.transport === 'proxy');
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!response.ok && response.status !== 304) {
+    throw new FetchError('http', url, `HTTP ${response.status} ${response.statusText}`.trim(), response.status, route.transport === 'proxy');
+  }
+
+  return response;
+};
+
+// Like fetchText, but also returns status and headers; a 304 is a successful (empty) result
+export const fetchResource = async (url: string, options: FetchTextOptions = {}): Promise<FetchResult> => {
+  const response = await send(url, options);
+
+  if (response.status === 304) {
+    return { status: 304, text: '', headers: response.headers };
+  }
+
+  return { status: response.status, text: await response.text(), headers: response.headers };
+};
+
+export const fetchBlob = async (url: string, options: FetchTextOptions = {}): Promise<Blob> => {
+  return (await send(url, options)).blob();
+};
+
+export const fetchText = async (url: string, options: FetchTextOptions = {}): Promise<string> => {
+  return (await fetchResource(url, options)).text;
+};
+
+// Cache-Control max-age in milliseconds, ignoring responses that must not be cached
+export const getMaxAge = (headers: Headers): number | undefined => {
+  const cacheControl = headers.get('cache-control') || '';
+  if (/no-store|no-cache/i.test(cacheControl)) return undefined;
+  const match = cacheControl.match(/max-age=(\d+)/i);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+const getHost = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch (error) {
+    return url;
+  }
+};
+
+export const describeFetchError = (error: unknown): { title: string; description: string } => {
+  if (!(error instanceof FetchError)) {
+    return {
+      title: 'Something went wrong',
+      description: error instanceof Error ? error.message : 'Please check the URL and try again'
+    };
+  }
+
+  const host = getHost(error.url);
+  switch (error.kind) {
+    case 'network':
+      return {
+        title: 'Could not reach the site',
+        description: error.viaProxy
+          ? `${host} could not be fetched through the CORS proxy. Check that the proxy in Settings is running.`
+          : `${host} could not be reached. It may be offline or blocking cross-origin (CORS) requests; try routing it through a proxy in Settings.`
+      };
+    case 'http':
+      return {
+        title: `Request failed (${error.status})`,
+        description: `${host} responded with ${error.message}`
+      };
+    case 'timeout':
+      return {
+        title: 'Request timed out',
+        description: `${host} did not respond in time. ${error.message}.`
+      };
+    case 'not-a-feed':
+      return {
+        title: 'Not a feed',
+        description: `${error.url} is not an RSS, Atom or JSON feed`
+      };
+    case 'parse':
+      return {
+        title: 'Could not parse the response',
+        description: error.message
+      };
+  }
+};
+
+export type { FetchErrorKind, FetchTextOptions, FetchResult };
@@ -0,0 +1,300 @@
+interface SerializeContext {
+  inTable: boolean; // table cells have to stay on one line
+}
+
+// Elements whose content starts on a new paragraph
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DD', 'DETAILS', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE', 'FOOTER',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION', 'SUMMARY',
+  'TABLE', 'UL'
+]);
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD', 'TITLE', 'META', 'LINK']);
+
+// Kept as inline HTML, which CommonMark passes through, because Markdown has no syntax for them
+const HTML_INLINE_TAGS = new Set(['SUP', 'SUB', 'KBD', 'MARK', 'U', 'INS']);
+
+// Placeholders that let a container tell finished blocks from loose inline text, and <br> from whitespace
+const BLOCK_START = '\uE001';
+const BLOCK_END = '\uE002';
+const BREAK = '\uE000';
+const PLACEHOLDERS = /[\uE000-\uE002]/g;
+
+const escapeText = (text: string, context: SerializeContext) => {
+  let escaped = text
+    .replace(/[\\`*_[\]~]/g, '\\$&')
+    .replace(/<(?=[a-zA-Z/!?])/g, '\\<')
+    .replace(/&(?=#?\w+;)/g, '\\&');
+  if (context.inTable) escaped = escaped.replace(/\|/g, '\\|');
+  return escaped;
+};
+
+// Text that would otherwise start a heading, quote, list item or thematic break
+const escapeLineStarts = (text: string) =>
+  text.replace(/^([ \t]*)([#>+=-]|\d+(?=[.)]\s))/gm, (_match, indent: string, marker: string) =>
+    /^\d+$/.test(marker) ? `${indent}${marker}\\` : `${indent}\\${marker}`
+  );
+
+// A fence longer than any backtick run inside the code
+const fenceFor = (code: string, minimum: number) => {
+  const longest = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+  return '`'.repeat(Math.max(minimum, longest + 1));
+};
+
+const formatUrl = (url: string) => /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+
+const formatTitle = (title: string | null) => title ? ` "${title.replace(/["\\]/g, '\\$&')}"` : '';
+
+const indent = (text: string, width: number) =>
+  text.split('\n').map((line, index) => index === 0 || !line ? line : ' '.repeat(width) + line).join('\n');
+
+// Emphasis markers have to touch the text, so surrounding spaces move outside them
+const wrap = (content: string, marker: string) => {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2]) return content;
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+};
+
+export class HTMLToMarkdown {
+  // CommonMark with the GitHub extensions for tables, strikethrough and task lists
+  static convert(element: Element): string {
+    // Blocks are joined with exactly one blank line, so blank lines inside code blocks survive untouched
+    return this.finishBlock(this.children(element, { inTable: false }))
+      .replace(PLACEHOLDERS, '')
+      .trim() + '\n';
+  }
+
+  private static children(element: Element, context: SerializeContext): string {
+    return Array.from(element.childNodes).map(node => this.node(node, context)).join('');
+  }
+
+  private static node(node: ChildNode, context: SerializeContext): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return escapeText((node.textContent || '').replace(/\s+/g, ' '), context);
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const el = node as Element;
+    const tagName = el.tagName.toUpperCase();
+    if (SKIPPED_TAGS.has(tagName)) return '';
+
+    if (context.inTable && BLOCK_TAGS.has(tagName) && tagName !== 'TABLE') {
+      return ` ${this.children(el, context)} `;
+    }
+
+    switch (tagName) {
+      case 'H1':
+      case 'H2':
+      case 'H3':
+      case 'H4':
+      case 'H5':
+      case 'H6': {
+        const text = this.inline(el, context);
+        return text ? this.block(`${'#'.repeat(Number(tagName[1]))} ${text}`) : '';
+      }
+      case 'P':
+        return this.block(this.paragraph(this.children(el, context)));
+      case 'BR':
+        return context.inTable ? '<br>' : BREAK;
+      case 'HR':
+        return this.block('---');
+      case 'STRONG':
+      case 'B':
+        return wrap(this.children(el, context), '**');
+      case 'EM':
+      case 'I':
+      case 'CITE':
+        return wrap(this.children(el, context), '*');
+      case 'DEL':
+      case 'S':
+      case 'STRIKE':
+        return wrap(this.children(el, context), '~~');
+      case 'CODE':
+        return this.inlineCode(el.textContent || '', context);
+      case 'A':
+        return this.link(el, context);
+      case 'IMG':
+        return this.image(el);
+      case 'UL':
+      case 'OL':
+        return this.block(this.list(el, context));
+      case 'BLOCKQUOTE': {
+        const quoted = this.finishBlock(this.children(el, context));
+        return quoted ? this.block(quoted.split('\n').map(line => line ? `> ${line}` : '>').join('\n')) : '';
+      }
+      case 'PRE':
+        return this.block(this.codeBlock(el));
+      case 'TABLE':
+        return context.inTable ? this.children(el, context) : this.block(this.table(el));
+      case 'FIGCAPTION':
+        return this.block(this.paragraph(wrap(this.children(el, context), '*')));
+      case 'DT':
+        return this.block(this.paragraph(wrap(this.children(el, context), '**')));
+      case 'DD':
+        // Definition-list syntax from Markdown Extra; renderers without it still show a readable "term, : definition"
+        return this.block(`: ${indent(this.finishBlock(this.children(el, context)), 2)}`);
+      case 'INPUT':
+        return '';
+      default:
+        if (HTML_INLINE_TAGS.has(tagName)) {
+          const content = this.children(el, context);
+          const tag = tagName.toLowerCase();
+          return content.trim() ? `<${tag}>${content}</${tag}>` : content;
+        }
+        return BLOCK_TAGS.has(tagName)
+          ? this.block(this.finishBlock(this.children(el, context)))
+          : this.children(el, context);
+    }
+  }
+
+  private static block(content: string): string {
+    return content ? `${BLOCK_START}${content}${BLOCK_END}` : '';
+  }
+
+  // Joins the blocks and inline runs inside a container; loose text becomes a paragraph of its own
+  private static finishBlock(content: string): string {
+    // Nested containers are finished first, so blocks and inline runs alternate here
+    return content
+      .split(/[\uE001\uE002]/)
+      .map((part, index) => index % 2 === 1 ? part.replace(/^\n+|\n+$/g, '') : this.paragraph(part))
+      .filter(part => part.trim())
+      .join('\n\n');
+  }
+
+  private static paragraph(content: string): string {
+    const lines = content.split(BREAK).map(line => line.replace(/ {2,}/g, ' ').trim());
+    while (lines.length > 0 && !lines[lines.length - 1]) lines.pop();
+    return escapeLineStarts(lines.join('  \n'));
+  }
+
+  // Content that has to stay on one line, such as a heading or a table cell
+  private static inline(el: Element, context: SerializeContext): string {
+    return this.children(el, context).replace(PLACEHOLDERS, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  private static inlineCode(code: string, context: SerializeContext): string {
+    const text = code.replace(/\n/g, ' ');
+    if (!text) return '';
+    const fence = fenceFor(text, 1);
+    const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+    // GFM splits table rows on pipes before it parses code spans, so they need escaping there too
+    const content = context.inTable ? text.replace(/\|/g, '\\|') : text;
+    return `${fence}${padding}${content}${padding}${fence}`;
+  }
+
+  private static link(el: Element, context: SerializeContext): string {
+    const href = el.getAttribute('href')?.trim() || '';
+    const text = this.inline(el, context);
+    if (!href || /^javascript:/i.test(href)) return text;
+    if (!text) return '';
+    if (text === escapeText(href, context) && /^(https?|mailto):/i.test(href)) return `<${href}>`;
+    return `[${text}](${formatUrl(href)}${formatTitle(el.getAttribute('title'))})`;
+  }
+
+  private static image(el: Element): string {
+    const src = el.getAttribute('src')?.trim();
+    if (!src) return '';
+    const alt = (el.getAttribute('alt') || '').replace(/[[\]\\]/g, '\\$&');
+    return `![${alt}](${formatUrl(src)}${formatTitle(el.getAttribute('title'))})`;
+  }
+
+  private static list(list: Element, context: SerializeContext): string {
+    const ordered = list.tagName.toUpperCase() === 'OL';
+    const start = Number(list.getAttribute('start')) || 1;
+    const items = Array.from(list.children).filter(child => child.tagName.toUpperCase() === 'LI');
+
+    let loose = false;
+    const rendered = items.map((item, index) => {
+      const marker = ordered ? `${start + index}. ` : '- ';
+      const { content, hasParagraphs } = this.listItem(item, context);
+      loose = loose || hasParagraphs;
+      return marker + indent(content, marker.length);
+    });
+    return rendered.join(loose ? '\n\n' : '\n');
+  }
+
+  // Nested lists follow their item's text directly; other blocks make the list loose
+  private static listItem(item: Element, context: SerializeContext): { content: string; hasParagraphs: boolean } {
+    const parts: { text: string; separator: string }[] = [];
+    let inline = '';
+    let hasParagraphs = false;
+
+    const flush = () => {
+      const text = this.paragraph(inline);
+      if (text) parts.push({ text, separator: '\n\n' });
+      inline = '';
+    };
+
+    let task = '';
+    for (const child of Array.from(item.childNodes)) {
+      const el = child.nodeType === Node.ELEMENT_NODE ? child as Element : null;
+      const tagName = el?.tagName.toUpperCase();
+
+      if (el && tagName === 'INPUT' && el.getAttribute('type') === 'checkbox' && parts.length === 0 && !inline.trim()) {
+        task = el.hasAttribute('checked') ? '[x] ' : '[ ] ';
+      } else if (el && (tagName === 'UL' || tagName === 'OL')) {
+        flush();
+        parts.push({ text: this.list(el, context), separator: '\n' });
+      } else if (el && tagName && BLOCK_TAGS.has(tagName)) {
+        flush();
+        const text = this.finishBlock(this.node(el, context));
+        if (text) parts.push({ text, separator: '\n\n' });
+        hasParagraphs = true;
+      } else {
+        inline += this.node(child, context);
+      }
+    }
+    flush();
+
+    // A lone paragraph, as some editors wrap every item in <p>, keeps the list tight
+    if (hasParagraphs && parts.filter(part => part.separator === '\n\n').length <= 1) hasParagraphs = false;
+
+    const content = parts.map((part, index) => index === 0 ? part.text : part.separator + part.text).join('');
+    return { content: task + content, hasParagraphs };
+  }
+
+  private static codeBlock(pre: Element): string {
+    const code = pre.querySelector('code');
+    const text = (pre.textContent || '').replace(/\n$/, '');
+    const classes = `${pre.getAttribute('class') || ''} ${code?.getAttribute('class') || ''}`;
+    const language = classes.match(/(?:^|\s)(?:language|lang)-([\w#+.-]+)/)?.[1] ||
+      pre.getAttribute('data-lang') || code?.getAttribute('data-lang') || '';
+    const fence = fenceFor(text, 3);
+    return `${fence}${language}\n${text}\n${fence}`;
+  }
+
+  private static table(table: Element): string {
+    const context: SerializeContext = { inTable: true };
+    const rows = Array.from(table.querySelectorAll('tr')).filter(row => row.closest('table') === table);
+    if (rows.length === 0) return '';
+
+    const cells = rows.map(row => Array.from(row.children)
+      .filter(cell => cell.tagName.toUpperCase() === 'TD' || cell.tagName.toUpperCase() === 'TH')
+      .flatMap(cell => {
+        const text = this.inline(cell, context);
+        const span = Math.max(1, Number(cell.getAttribute('colspan')) || 1);
+        return [text, ...Array(span - 1).fill('')];
+      }));
+    const columns = Math.max(...cells.map(row => row.length));
+    if (columns === 0) return '';
+
+    // GFM tables need a header row, so the first row serves as one when the table has none
+    const headerCells = Array.from(rows[0].children);
+    const alignments = Array.from({ length: columns }, (_, index) => {
+      const cell = headerCells[index];
+      const align = (cell?.getAttribute('align') || (cell as HTMLElement | undefined)?.style?.textAlign || '').toLowerCase();
+      if (align === 'center') return ':---:';
+      if (align === 'right') return '---:';
+      if (align === 'left') return ':---';
+      return '---';
+    });
+
+    const line = (row: string[]) =>
+      `| ${Array.from({ length: columns }, (_, index) => row[index] || '').join(' | ')} |`;
+    const rendered = [line(cells[0]), line(alignments), ...cells.slice(1).map(line)].join('\n');
+
+    // GFM tables have no caption, so it goes in a paragraph of its own above the table
+    const caption = Array.from(table.children).find(child => child.tagName.toUpperCase() === 'CAPTION');
+    const captionText = caption ? this.paragraph(this.inline(caption, { inTable: false })) : '';
+    return captionText ? `${captionText}\n\n${rendered}` : rendered;
+  }
+}
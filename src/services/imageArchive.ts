@@ -0,0 +1,150 @@
+import { fetchBlob } from './fetchClient';
+import { LinkResolver } from './linkResolver';
+import { blobToDataUrl } from '../lib/utils';
+import { storageService, type Article, type ArchivedImage } from './storageService';
+
+// Images are downloaded but not stored: the caller saves them with the article that references them,
+// in one transaction, so none are left behind when the article can't be saved
+interface ArchiveResult {
+  content: string;
+  images: ArchivedImage[];
+  archived: number; // distinct images downloaded
+  failed: number;
+}
+
+interface ResolvedContent {
+  content: string;
+  release: () => void; // revokes the object URLs once the content is no longer shown
+}
+
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+
+const MARKDOWN_IMAGE = /(!\[(?:\\.|[^\]\\])*\]\(\s*)(<[^>\n]+>|[^\s)]+)/g;
+const ARCHIVE_REFERENCE = /readlater-image:([0-9a-f]{64})/g;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+export class ImageArchive {
+  // Stored content points at archived images through this scheme; object URLs only live as long as the page
+  static readonly PROTOCOL = 'readlater-image:';
+
+  static async archiveMarkdown(markdown: string, baseUrl?: string): Promise<ArchiveResult> {
+    const urls = [...markdown.matchAll(MARKDOWN_IMAGE)].map(match => match[2].replace(/^<|>$/g, ''));
+    const images = await this.archiveUrls(urls, baseUrl);
+
+    const content = markdown.replace(MARKDOWN_IMAGE, (match, prefix: string, url: string) => {
+      const image = images.get(url.replace(/^<|>$/g, ''));
+      return image ? `${prefix}${this.PROTOCOL}${image.hash}` : match;
+    });
+    return this.result(content, images, urls);
+  }
+
+  // srcset and <picture> sources are dropped from archived images, since browsers would prefer them over src
+  static async archiveHTML(html: string, baseUrl?: string): Promise<ArchiveResult> {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const images = Array.from(doc.body.querySelectorAll('img[src]'));
+    const urls = images.map(image => image.getAttribute('src') || '');
+    const archived = await this.archiveUrls(urls, baseUrl);
+
+    images.forEach(image => {
+      const archivedImage = archived.get(image.getAttribute('src') || '');
+      if (!archivedImage) return;
+      image.setAttribute('src', `${this.PROTOCOL}${archivedImage.hash}`);
+      image.removeAttribute('srcset');
+      image.closest('picture')?.querySelectorAll('source').forEach(source => source.remove());
+    });
+    return this.result(doc.body.innerHTML, archived, urls);
+  }
+
+  // Swaps archived references for object URLs so the content can be displayed. Each call gets its own
+  // URLs, which keep their blobs in memory until the caller releases them.
+  static async resolve(content: string): Promise<ResolvedContent> {
+    const hashes = [...new Set([...content.matchAll(ARCHIVE_REFERENCE)].map(match => match[1]))];
+    const objectUrls = new Map<string, string>();
+    const release = () => objectUrls.forEach(url => URL.revokeObjectURL(url));
+
+    try {
+      await Promise.all(hashes.map(async hash => {
+        const image = await storageService.getImage(hash);
+        if (image) objectUrls.set(hash, URL.createObjectURL(image.blob));
+      }));
+    } catch (error) {
+      release();
+      throw error;
+    }
+    return {
+      content: content.replace(ARCHIVE_REFERENCE, (reference, hash: string) => objectUrls.get(hash) || reference),
+      release
+    };
+  }
+
+  static hasArchivedImages(content: string): boolean {
+    return new RegExp(ARCHIVE_REFERENCE.source).test(content);
+  }
+
+  // Images referenced by the articles as data URLs keyed by hash, for exports that have to stand on their own
+  static async exportImages(articles: Article[]): Promise<Record<string, string>> {
+    const hashes = new Set(articles.flatMap(article =>
+      [article.content, article.fullContent || ''].flatMap(content =>
+        [...content.matchAll(ARCHIVE_REFERENCE)].map(match => match[1])
+      )
+    ));
+
+    const images: Record<string, string> = {};
+    for (const hash of hashes) {
+      const image = await storageService.getImage(hash);
+      if (image) images[hash] = await blobToDataUrl(image.blob);
+    }
+    return images;
+  }
+
+  private static async archiveUrls(urls: string[], baseUrl?: string): Promise<Map<string, ArchivedImage>> {
+    const images = new Map<string, ArchivedImage>();
+    for (const url of new Set(urls)) {
+      if (url.startsWith(this.PROTOCOL) || /^data:/i.test(url)) continue;
+
+      const absolute = baseUrl ? LinkResolver.resolve(url, baseUrl) : LinkResolver.resolve(url, url);
+      if (!absolute) continue;
+      try {
+        images.set(url, await this.archiveUrl(absolute));
+      } catch (error) {
+        console.error(`Failed to archive image ${absolute}:`, error);
+      }
+    }
+    return images;
+  }
+
+  private static async archiveUrl(url: string): Promise<ArchivedImage> {
+    const blob = await fetchBlob(url, { accept: 'image/*' });
+    // Proxies and misconfigured servers answer with error pages instead of failing
+    if (blob.type && !blob.type.startsWith('image/') && blob.type !== 'application/octet-stream') {
+      throw new Error(`Not an image (${blob.type})`);
+    }
+    if (blob.size > MAX_IMAGE_SIZE) {
+      throw new Error(`Image is larger than ${MAX_IMAGE_SIZE / 1024 / 1024} MB`);
+    }
+
+    return {
+      hash: toHex(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())),
+      blob,
+      type: blob.type,
+      size: blob.size,
+      sourceUrl: url,
+      savedAt: Date.now()
+    };
+  }
+
+  private static result(content: string, archived: Map<string, ArchivedImage>, urls: string[]): ArchiveResult {
+    const candidates = new Set(urls.filter(url => !url.startsWith(this.PROTOCOL) && !/^data:/i.test(url)));
+    const images = [...new Map([...archived.values()].map(image => [image.hash, image])).values()];
+    return {
+      content,
+      images,
+      archived: images.length,
+      failed: candidates.size - archived.size
+    };
+  }
+}
+
+export type { ArchiveResult, ResolvedContent };
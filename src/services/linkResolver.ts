@@ -0,0 +1,147 @@
+interface SrcsetCandidate {
+  url: string;
+  width?: number; // from a "640w" descriptor
+  density: number; // from a "2x" descriptor, 1 when there is none
+}
+
+// Query parameters added by known analytics and ad trackers. Generic names such as "ref", "source"
+// or "id" are left alone: plenty of sites use them to pick the page or revision being shown.
+const TRACKING_PARAMS = /^(utm_\w+|mc_\w+|fbclid|gclid|gclsrc|gbraid|wbraid|dclid|msclkid|yclid|twclid|ttclid|igshid|li_fat_id|mkt_tok|_hsenc|_hsmi|oly_anon_id|oly_enc_id|vero_id|ref_src)$/i;
+
+// Where lazy-loading scripts keep the real image until it scrolls into view
+const LAZY_SRC_ATTRIBUTES = ['data-src', 'data-lazy-src', 'data-original', 'data-url', 'data-hi-res-src'];
+const LAZY_SRCSET_ATTRIBUTES = ['data-srcset', 'data-lazy-srcset'];
+
+// readlater-image: points at an image archived for offline reading
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'readlater-image:'];
+
+export class LinkResolver {
+  // The page URL, or the document's <base href> resolved against it
+  static getBaseUrl(doc: Document, pageUrl: string): string {
+    const base = doc.querySelector('base[href]')?.getAttribute('href');
+    if (!base) return pageUrl;
+    try {
+      return new URL(base.trim(), pageUrl).href;
+    } catch (error) {
+      return pageUrl;
+    }
+  }
+
+  // An absolute URL, or null for anything that can't be followed safely (javascript:, unparseable values)
+  static resolve(value: string, baseUrl: string): string | null {
+    try {
+      const url = new URL(value.trim(), baseUrl);
+      if (SAFE_PROTOCOLS.includes(url.protocol) || /^data:image\//i.test(url.href)) return url.href;
+      return null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static stripTracking(url: string): string {
+    try {
+      const parsed = new URL(url);
+      const params = [...parsed.searchParams];
+      const kept = params.filter(([name]) => !TRACKING_PARAMS.test(name));
+      if (kept.length === params.length) return url;
+      parsed.search = new URLSearchParams(kept).toString();
+      return parsed.href;
+    } catch (error) {
+      return url;
+    }
+  }
+
+  static isTrackingParam(name: string): boolean {
+    return TRACKING_PARAMS.test(name);
+  }
+
+  static parseSrcset(srcset: string): SrcsetCandidate[] {
+    const candidates: SrcsetCandidate[] = [];
+    let rest = srcset;
+
+    // URLs can contain commas (data: URLs do), so a URL runs to the next whitespace and trailing commas end it
+    while ((rest = rest.replace(/^[\s,]+/, ''))) {
+      let url = rest.match(/^\S+/)?.[0] || '';
+      rest = rest.slice(url.length);
+
+      let descriptor = '';
+      if (/,$/.test(url)) {
+        url = url.replace(/,+$/, '');
+      } else {
+        const end = rest.indexOf(',');
+        descriptor = (end === -1 ? rest : rest.slice(0, end)).trim();
+        rest = end === -1 ? '' : rest.slice(end + 1);
+      }
+
+      const width = descriptor.match(/^(\d+)w$/);
+      const density = descriptor.match(/^([\d.]+)x$/);
+      candidates.push({
+        url,
+        width: width ? Number(width[1]) : undefined,
+        density: density ? Number(density[1]) : 1
+      });
+    }
+    return candidates;
+  }
+
+  // Makes every link and image in the element absolute, swaps in lazy-loaded images and drops tracking parameters
+  static resolveElement(root: Element, baseUrl: string, options: { stripTracking?: boolean } = {}) {
+    root.querySelectorAll('a[href]').forEach(link => {
+      const url = this.resolve(link.getAttribute('href') || '', baseUrl);
+      if (url) {
+        link.setAttribute('href', options.stripTracking ? this.stripTracking(url) : url);
+      } else {
+        link.removeAttribute('href');
+      }
+    });
+
+    root.querySelectorAll('img').forEach(image => this.resolveImage(image, baseUrl));
+    root.querySelectorAll('source[srcset]').forEach(source => {
+      source.setAttribute('srcset', this.resolveSrcset(source.getAttribute('srcset') || '', baseUrl));
+    });
+  }
+
+  // Points src at the largest available candidate, taking lazy-loading attributes and <picture> sources into account
+  static resolveImage(image: Element, baseUrl: string) {
+    const src = image.getAttribute('src')?.trim() || '';
+    const isPlaceholder = !src || /^data:/i.test(src) || /(^|\s)lazy/i.test(image.getAttribute('class') || '');
+
+    const lazySrc = LAZY_SRC_ATTRIBUTES.map(name => image.getAttribute(name)).find(Boolean);
+    const lazySrcset = LAZY_SRCSET_ATTRIBUTES.map(name => image.getAttribute(name)).find(Boolean);
+    const srcset = this.resolveSrcset((isPlaceholder && lazySrcset) || image.getAttribute('srcset') || lazySrcset || '', baseUrl);
+    const pictureSrcset = image.closest('picture')?.querySelector('source[srcset]')?.getAttribute('srcset') || '';
+
+    const best = this.pickBest(this.parseSrcset(srcset || pictureSrcset));
+    const source = best || (isPlaceholder && lazySrc) || src;
+    const url = source ? this.resolve(source, baseUrl) : null;
+
+    if (url) {
+      image.setAttribute('src', url);
+    } else {
+      image.removeAttribute('src');
+    }
+    if (srcset) image.setAttribute('srcset', srcset);
+    [...LAZY_SRC_ATTRIBUTES, ...LAZY_SRCSET_ATTRIBUTES].forEach(name => image.removeAttribute(name));
+  }
+
+  static resolveSrcset(srcset: string, baseUrl: string): string {
+    return this.parseSrcset(srcset)
+      .map(candidate => ({ ...candidate, url: this.resolve(candidate.url, baseUrl) }))
+      .filter(candidate => candidate.url)
+      .map(candidate => {
+        const descriptor = candidate.width ? ` ${candidate.width}w` : candidate.density !== 1 ? ` ${candidate.density}x` : '';
+        return `${candidate.url}${descriptor}`;
+      })
+      .join(', ');
+  }
+
+  private static pickBest(candidates: SrcsetCandidate[]): string | undefined {
+    const widest = candidates
+      .filter(candidate => candidate.width)
+      .sort((a, b) => (b.width || 0) - (a.width || 0))[0];
+    if (widest) return widest.url;
+    return [...candidates].sort((a, b) => b.density - a.density)[0]?.url;
+  }
+}
+
+export type { SrcsetCandidate };
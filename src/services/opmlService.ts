@@ -0,0 +1,101 @@
+import type { Feed } from './storageService';
+import { ArticleDedup } from './articleDedup';
+import { CATEGORY_SEPARATOR, buildCategoryTree, type CategoryNode } from './feedCategories';
+
+interface OPMLEntry {
+  url: string;
+  title: string;
+  description: string;
+  category: string;
+}
+
+export class OPMLService {
+  static parse(xmlText: string): OPMLEntry[] {
+    const parser = new DOMParser();
+    const doc = parser.parseFromString(xmlText, 'text/xml');
+
+    if (doc.querySelector('parsererror')) {
+      throw new Error('Invalid OPML file: the document is not well-formed XML');
+    }
+
+    const body = doc.querySelector('opml > body');
+    if (!body) {
+      throw new Error('Invalid OPML file: missing <body> element');
+    }
+
+    const entries: OPMLEntry[] = [];
+    this.collectOutlines(body, [], entries);
+    return entries;
+  }
+
+  // Category paths such as "Tech / JavaScript" become nested folders, in the order the sidebar shows them
+  static generate(feeds: Feed[], title = 'ReadLater Subscriptions'): string {
+    const folders = buildCategoryTree(feeds).map(node => this.folderOutline(node, 2));
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>${this.escape(title)}</title>
+    <dateCreated>${new Date().toUTCString()}</dateCreated>
+  </head>
+  <body>
+${folders.join('\n')}
+  </body>
+</opml>
+`;
+  }
+
+  static isValidFeedUrl(url: string): boolean {
+    try {
+      const parsed = new URL(url);
+      return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Feed URLs compare like article URLs: paths and queries keep their case, since servers may tell them apart
+  static normalizeUrl(url: string): string {
+    return ArticleDedup.normalizeUrl(url);
+  }
+
+  // Outlines with an xmlUrl are feeds; any other outline is a folder whose path becomes the category
+  private static collectOutlines(parent: Element, path: string[], entries: OPMLEntry[]) {
+    for (const outline of Array.from(parent.children)) {
+      if (outline.tagName !== 'outline') continue;
+
+      const text = outline.getAttribute('text') || outline.getAttribute('title') || '';
+      const xmlUrl = outline.getAttribute('xmlUrl') || outline.getAttribute('xmlurl') || '';
+
+      if (xmlUrl) {
+        entries.push({
+          url: xmlUrl.trim(),
+          title: outline.getAttribute('title') || text || xmlUrl,
+          description: outline.getAttribute('description') || '',
+          category: path.length > 0 ? path.join(CATEGORY_SEPARATOR) : 'General'
+        });
+      } else {
+        this.collectOutlines(outline, text ? [...path, text] : path, entries);
+      }
+    }
+  }
+
+  private static folderOutline(node: CategoryNode, depth: number): string {
+    const indent = '  '.repeat(depth);
+    const children = [
+      ...node.children.map(child => this.folderOutline(child, depth + 1)),
+      ...node.feeds.map(feed => `${indent}  <outline type="rss" text="${this.escape(feed.title)}" title="${this.escape(feed.title)}" xmlUrl="${this.escape(feed.url)}" description="${this.escape(feed.description || '')}"/>`)
+    ];
+    return `${indent}<outline text="${this.escape(node.name)}" title="${this.escape(node.name)}">\n${children.join('\n')}\n${indent}</outline>`;
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
+
+export type { OPMLEntry };
@@ -0,0 +1,209 @@
+import { fetchBlob, fetchText } from './fetchClient';
+import { LinkResolver } from './linkResolver';
+import { blobToDataUrl } from '../lib/utils';
+
+interface SnapshotResult {
+  html: string;
+  size: number; // bytes
+  inlined: number; // stylesheets, images and fonts now embedded in the page
+  failed: number;
+}
+
+interface CaptureContext {
+  resources: Map<string, string | null>; // data URL per resource URL, null when it couldn't be fetched
+  inlined: number;
+  failed: number;
+}
+
+const MAX_RESOURCE_SIZE = 10 * 1024 * 1024;
+const MAX_IMPORT_DEPTH = 3;
+
+// Elements that run code, embed other documents or load media that can't be inlined
+const DROPPED_SELECTOR = 'script, noscript, iframe, frame, frameset, object, embed, applet, portal, template, base, video, audio, meta[http-equiv]';
+
+// Attributes that can run code or reach the network without the snapshot's knowledge
+const DROPPED_ATTRIBUTES = new Set(['srcdoc', 'ping', 'integrity', 'nonce', 'crossorigin', 'action', 'formaction']);
+
+// Applied by the snapshot itself, so nothing escapes even when it is opened outside the viewer
+const CONTENT_SECURITY_POLICY = "default-src 'none'; img-src data:; font-src data:; style-src 'unsafe-inline'";
+
+const CSS_URL = /url\(\s*(?:"([^"]*)"|'([^']*)'|([^)'"\s]*))\s*\)/gi;
+const CSS_IMPORT = /@import\s+(?:url\(\s*(?:"([^"]*)"|'([^']*)'|([^)'"\s]*))\s*\)|"([^"]*)"|'([^']*)')\s*([^;]*);/gi;
+
+// String.replace with an async replacer; matches are fetched one after another like the rest of the archive code
+const replaceAsync = async (text: string, pattern: RegExp, replacer: (match: RegExpMatchArray) => Promise<string>) => {
+  const replacements: string[] = [];
+  for (const match of text.matchAll(pattern)) {
+    replacements.push(await replacer(match));
+  }
+  let index = 0;
+  return text.replace(pattern, () => replacements[index++]);
+};
+
+export class PageSnapshotBuilder {
+  // A single HTML file with stylesheets and images inlined and every script removed
+  static async build(html: string, pageUrl: string): Promise<SnapshotResult> {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const baseUrl = LinkResolver.getBaseUrl(doc, pageUrl);
+    const context: CaptureContext = { resources: new Map(), inlined: 0, failed: 0 };
+
+    this.removeActiveContent(doc);
+    await this.inlineStylesheets(doc, baseUrl, context);
+    await this.inlineImages(doc, baseUrl, context);
+    this.resolveLinks(doc, baseUrl);
+
+    const charset = doc.createElement('meta');
+    charset.setAttribute('charset', 'utf-8');
+    const policy = doc.createElement('meta');
+    policy.setAttribute('http-equiv', 'Content-Security-Policy');
+    policy.setAttribute('content', CONTENT_SECURITY_POLICY);
+    doc.head.querySelectorAll('meta[charset]').forEach(meta => meta.remove());
+    doc.head.prepend(charset, policy);
+
+    const snapshot = `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+    return {
+      html: snapshot,
+      size: new Blob([snapshot]).size,
+      inlined: context.inlined,
+      failed: context.failed
+    };
+  }
+
+  private static removeActiveContent(doc: Document) {
+    doc.querySelectorAll(DROPPED_SELECTOR).forEach(el => el.remove());
+
+    // Only stylesheets are kept from <link>; preloads, icons and alternate styles would all be fetched
+    doc.querySelectorAll('link').forEach(link => {
+      const rel = (link.getAttribute('rel') || '').toLowerCase().split(/\s+/);
+      if (!rel.includes('stylesheet') || rel.includes('alternate') || !link.getAttribute('href')) link.remove();
+    });
+
+    doc.querySelectorAll('*').forEach(el => {
+      for (const attribute of Array.from(el.attributes)) {
+        const name = attribute.name.toLowerCase();
+        if (name.startsWith('on') || DROPPED_ATTRIBUTES.has(name) || /^\s*javascript:/i.test(attribute.value)) {
+          el.removeAttribute(attribute.name);
+        }
+      }
+    });
+  }
+
+  private static async inlineStylesheets(doc: Document, baseUrl: string, context: CaptureContext) {
+    for (const link of Array.from(doc.querySelectorAll('link[href]'))) {
+      const href = LinkResolver.resolve(link.getAttribute('href') || '', baseUrl);
+      try {
+        if (!href) throw new Error('Unsupported stylesheet URL');
+        const css = await fetchText(href, { accept: 'text/css, */*;q=0.1' });
+
+        const style = doc.createElement('style');
+        const media = link.getAttribute('media');
+        if (media) style.setAttribute('media', media);
+        style.textContent = await this.inlineCss(css, href, context, 0);
+        link.replaceWith(style);
+        context.inlined++;
+      } catch (error) {
+        console.error(`Failed to inline stylesheet ${href}:`, error);
+        link.remove();
+        context.failed++;
+      }
+    }
+
+    for (const style of Array.from(doc.querySelectorAll('style'))) {
+      style.textContent = await this.inlineCss(style.textContent || '', baseUrl, context, 0);
+    }
+
+    for (const el of Array.from(doc.querySelectorAll('[style]'))) {
+      el.setAttribute('style', await this.inlineCss(el.getAttribute('style') || '', baseUrl, context, 0));
+    }
+  }
+
+  // Follows @import and swaps every url() for a data URL, resolving against the stylesheet it appears in
+  private static async inlineCss(css: string, cssUrl: string, context: CaptureContext, depth: number): Promise<string> {
+    const imported = await replaceAsync(css, CSS_IMPORT, async match => {
+      const href = LinkResolver.resolve(match.slice(1, 6).find(value => value !== undefined) || '', cssUrl);
+      if (!href || depth >= MAX_IMPORT_DEPTH) return '';
+      try {
+        const text = await this.inlineCss(await fetchText(href, { accept: 'text/css, */*;q=0.1' }), href, context, depth + 1);
+        context.inlined++;
+        const media = match[6].trim();
+        return media ? `@media ${media} {\n${text}\n}` : text;
+      } catch (error) {
+        console.error(`Failed to inline stylesheet ${href}:`, error);
+        context.failed++;
+        return '';
+      }
+    });
+
+    return replaceAsync(imported, CSS_URL, async match => {
+      const value = (match[1] ?? match[2] ?? match[3] ?? '').trim();
+      // Fragment-only references point into the page itself (SVG filters and masks)
+      if (!value || value.startsWith('#') || /^data:/i.test(value)) return match[0];
+
+      const url = LinkResolver.resolve(value, cssUrl);
+      const dataUrl = url ? await this.inlineResource(url, context) : null;
+      return dataUrl ? `url("${dataUrl}")` : 'url("")';
+    });
+  }
+
+  private static async inlineImages(doc: Document, baseUrl: string, context: CaptureContext) {
+    for (const image of Array.from(doc.querySelectorAll('img'))) {
+      // Detached, so a retry ignores <picture> sources in formats the server may not actually have
+      const original = image.cloneNode() as Element;
+
+      // Picks the largest candidate, so only one file per image needs to be embedded
+      LinkResolver.resolveImage(image, baseUrl);
+      const src = image.getAttribute('src');
+      let dataUrl = src ? await this.inlineResource(src, context) : null;
+      if (!dataUrl) {
+        LinkResolver.resolveImage(original, baseUrl);
+        const fallback = original.getAttribute('src');
+        if (fallback && fallback !== src) dataUrl = await this.inlineResource(fallback, context);
+      }
+
+      if (dataUrl) {
+        image.setAttribute('src', dataUrl);
+      } else {
+        image.removeAttribute('src');
+      }
+      image.removeAttribute('srcset');
+      image.removeAttribute('sizes');
+    }
+
+    doc.querySelectorAll('picture source').forEach(source => source.remove());
+  }
+
+  private static resolveLinks(doc: Document, baseUrl: string) {
+    doc.querySelectorAll('a[href], area[href]').forEach(link => {
+      const href = LinkResolver.resolve(link.getAttribute('href') || '', baseUrl);
+      if (href) {
+        link.setAttribute('href', href);
+        link.setAttribute('target', '_blank');
+        link.setAttribute('rel', 'noopener noreferrer');
+      } else {
+        link.removeAttribute('href');
+      }
+    });
+  }
+
+  private static async inlineResource(url: string, context: CaptureContext): Promise<string | null> {
+    if (/^data:/i.test(url)) return url;
+    if (context.resources.has(url)) return context.resources.get(url) ?? null;
+
+    let dataUrl: string | null = null;
+    try {
+      const blob = await fetchBlob(url);
+      // Proxies and misconfigured servers answer with error pages instead of failing
+      if (blob.type.startsWith('text/html')) throw new Error('Received a page instead of a file');
+      if (blob.size > MAX_RESOURCE_SIZE) throw new Error(`File is larger than ${MAX_RESOURCE_SIZE / 1024 / 1024} MB`);
+      dataUrl = await blobToDataUrl(blob);
+      context.inlined++;
+    } catch (error) {
+      console.error(`Failed to inline ${url}:`, error);
+      context.failed++;
+    }
+    context.resources.set(url, dataUrl);
+    return dataUrl;
+  }
+}
+
+export type { SnapshotResult };
@@ -0,0 +1,145 @@
+import { AppSettings, type RetentionPolicy } from './appSettings';
+import { storageService, type Article, type Feed } from './storageService';
+
+interface FeedCleanup {
+  feedId: string;
+  feedTitle: string;
+  overLimit: Article[];
+  readExpired: Article[];
+}
+
+interface CleanupPlan {
+  total: number;
+  byFeed: FeedCleanup[];
+}
+
+interface StorageUsage {
+  usage?: number; // bytes, when the browser supports navigator.storage.estimate()
+  quota?: number;
+  articles: number;
+  protectedArticles: number;
+}
+
+type RetentionListener = (deleted: number) => void;
+
+class RetentionService {
+  private static readonly REMOVED_ITEMS_MAX = 1000; // remembered per feed so deleted items aren't fetched again
+
+  private listeners = new Set<RetentionListener>();
+
+  subscribe(listener: RetentionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Per-feed values win over the global policy; 0 turns a global limit off for that feed
+  getEffectivePolicy(feed: Feed, global: RetentionPolicy = AppSettings.getRetentionPolicy()): RetentionPolicy {
+    const maxItems = feed.retention?.maxItems ?? global.maxItems;
+    const readMaxAgeDays = feed.retention?.readMaxAgeDays ?? global.readMaxAgeDays;
+    return {
+      maxItems: maxItems || undefined,
+      readMaxAgeDays: readMaxAgeDays || undefined
+    };
+  }
+
+  // Works out which of a feed's articles the policy would delete; protected articles always stay
+  planFeed(feed: Feed, articles: Article[], policy: RetentionPolicy = this.getEffectivePolicy(feed)) {
+    const cutoff = policy.readMaxAgeDays ? Date.now() - policy.readMaxAgeDays * 86400000 : -Infinity;
+    const newestFirst = [...articles].sort((a, b) => b.publishDate - a.publishDate);
+    const overLimit: Article[] = [];
+    const readExpired: Article[] = [];
+
+    newestFirst.forEach((article, index) => {
+      if (storageService.isProtected(article)) return;
+      if (policy.maxItems && index >= policy.maxItems) {
+        overLimit.push(article);
+      } else if (article.isRead && article.publishDate < cutoff) {
+        readExpired.push(article);
+      }
+    });
+
+    return { overLimit, readExpired };
+  }
+
+  async plan(): Promise<CleanupPlan> {
+    const [feeds, articles] = await Promise.all([storageService.getFeeds(), storageService.getArticles()]);
+    const global = AppSettings.getRetentionPolicy();
+    const plan: CleanupPlan = { total: 0, byFeed: [] };
+
+    // Articles without a feed were saved by hand or kept after unsubscribing, so no policy applies
+    for (const feed of feeds) {
+      const { overLimit, readExpired } = this.planFeed(
+        feed,
+        articles.filter(article => article.feedId === feed.id),
+        this.getEffectivePolicy(feed, global)
+      );
+      if (overLimit.length + readExpired.length === 0) continue;
+
+      plan.total += overLimit.length + readExpired.length;
+      plan.byFeed.push({ feedId: feed.id, feedTitle: feed.title, overLimit, readExpired });
+    }
+
+    return plan;
+  }
+
+  // Deletes what a (previously previewed) plan lists. The preview may be stale, so articles are checked
+  // again as they are deleted: ones protected or marked unread since then stay. Returns how many went.
+  async cleanUp(plan?: CleanupPlan): Promise<number> {
+    const { total, byFeed } = plan || await this.plan();
+    if (total === 0) return 0;
+
+    let deleted = 0;
+    for (const entry of byFeed) {
+      const expired = new Set(entry.readExpired.map(article => article.id));
+      const removed = await storageService.deleteArticles(
+        [...entry.overLimit, ...entry.readExpired].map(article => article.id),
+        article => storageService.isProtected(article) || (expired.has(article.id) && !article.isRead)
+      );
+      if (removed.length === 0) continue;
+      await this.rememberRemoved(entry.feedId, removed);
+      deleted += removed.length;
+    }
+
+    if (deleted > 0) this.notify(deleted);
+    return deleted;
+  }
+
+  // Applied after every refresh so feeds stay within their limits; returns how many articles went
+  async pruneFeed(feed: Feed): Promise<number> {
+    const { overLimit, readExpired } = this.planFeed(feed, await storageService.getArticlesByFeed(feed.id));
+    const removed = [...overLimit, ...readExpired];
+    if (removed.length === 0) return 0;
+
+    const deleted = await storageService.deleteArticles(removed.map(article => article.id), article => storageService.isProtected(article));
+    await this.rememberRemoved(feed.id, deleted);
+    return deleted.length;
+  }
+
+  async getUsage(): Promise<StorageUsage> {
+    const articles = await storageService.getArticles();
+    const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+    return {
+      usage: estimate.usage,
+      quota: estimate.quota,
+      articles: articles.length,
+      protectedArticles: articles.filter(article => storageService.isProtected(article)).length
+    };
+  }
+
+  // Patched onto the stored feed, so edits made while articles were being deleted aren't undone
+  private async rememberRemoved(feedId: string, removed: Article[]) {
+    const keys = removed.map(article => article.guid || article.url).filter(Boolean);
+    await storageService.patchFeed(feedId, feed => ({
+      removedItems: [...(feed.removedItems || []), ...keys].slice(-RetentionService.REMOVED_ITEMS_MAX)
+    }));
+  }
+
+  private notify(deleted: number) {
+    this.listeners.forEach(listener => listener(deleted));
+  }
+}
+
+export const retentionService = new RetentionService();
+export type { CleanupPlan, FeedCleanup, StorageUsage };
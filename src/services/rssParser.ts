@@ -1,76 +1,403 @@
 
+import type { Attachment } from './storageService';
+import { AppSettings } from './appSettings';
+import { FetchError, fetchResource, fetchText, getMaxAge, resolveRoute } from './fetchClient';
+
 interface RSSItem {
   title: string;
   link: string;
   description: string;
+  content?: string;
   pubDate: string;
   author?: string;
   guid?: string;
+  attachments?: Attachment[];
 }
 
+type FeedFormat = 'rss2' | 'rss1' | 'atom' | 'json';
+
 interface RSSFeed {
   title: string;
   description: string;
   link: string;
+  format: FeedFormat;
   items: RSSItem[];
+  image?: string; // feed <image>, Atom <icon>/<logo> or JSON Feed icon
+  ttl?: number; // milliseconds, from RSS <ttl>
+  syndicationInterval?: number; // milliseconds, from sy:updatePeriod / sy:updateFrequency
+}
+
+interface FeedValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+interface ConditionalFetchResult {
+  notModified: boolean;
+  feed?: RSSFeed;
+  etag?: string;
+  lastModified?: string;
+  cacheMaxAge?: number;
 }
 
+const NAMESPACES = {
+  atom: 'http://www.w3.org/2005/Atom',
+  rss1: 'http://purl.org/rss/1.0/',
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  content: 'http://purl.org/rss/1.0/modules/content/',
+  xhtml: 'http://www.w3.org/1999/xhtml',
+  media: 'http://search.yahoo.com/mrss/',
+  sy: 'http://purl.org/rss/1.0/modules/syndication/',
+  itunes: 'http://www.itunes.com/dtds/podcast-1.0.dtd'
+};
+
 export class RSSParser {
+  private static readonly ACCEPT = 'application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, */*;q=0.8';
+
   static async fetchAndParse(url: string): Promise<RSSFeed> {
+    if (AppSettings.isDemoMode()) {
+      return this.getDemoFeed(url);
+    }
+
+    // Routed directly or through the CORS proxy according to the network settings
+    const text = await fetchText(url, { accept: this.ACCEPT });
+    return this.parse(text, url);
+  }
+
+  // Sends If-None-Match / If-Modified-Since from the previous fetch; a 304 yields notModified without a feed.
+  // The validators aren't CORS-safelisted headers: a direct request carrying them needs a preflight that most
+  // feed hosts don't answer, so they only go through the proxy.
+  static async fetchConditional(url: string, validators: FeedValidators = {}): Promise<ConditionalFetchResult> {
+    if (AppSettings.isDemoMode()) {
+      return { notModified: false, feed: this.getDemoFeed(url) };
+    }
+
+    const headers: Record<string, string> = {};
+    if (resolveRoute(url).transport === 'proxy') {
+      if (validators.etag) headers['If-None-Match'] = validators.etag;
+      if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+    }
+
+    let result;
     try {
-      // Note: In a real implementation, this would need a CORS proxy
-      // For demo purposes, we'll simulate RSS parsing
-      const response = await fetch(url);
-      const text = await response.text();
-      return this.parseRSS(text);
+      result = await fetchResource(url, { accept: this.ACCEPT, headers });
     } catch (error) {
-      console.error('RSS fetch failed:', error);
-      // Return demo data for development
-      return this.getDemoFeed(url);
+      // Third-party proxies may reject the preflight as well; a plain request still gets the feed
+      if (!(error instanceof FetchError) || error.kind !== 'network' || Object.keys(headers).length === 0) throw error;
+      result = await fetchResource(url, { accept: this.ACCEPT });
+    }
+    const cache = {
+      etag: result.headers.get('etag') || validators.etag,
+      lastModified: result.headers.get('last-modified') || validators.lastModified,
+      cacheMaxAge: getMaxAge(result.headers)
+    };
+
+    if (result.status === 304) {
+      return { notModified: true, ...cache };
     }
+
+    return { notModified: false, feed: this.parse(result.text, url), ...cache };
   }
 
-  static parseRSS(xmlText: string): RSSFeed {
+  static parse(text: string, url = ''): RSSFeed {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('{')) {
+      return this.parseJSONFeed(trimmed, url);
+    }
+
+    if (!trimmed.startsWith('<')) {
+      throw new FetchError('not-a-feed', url, 'Response is neither XML nor JSON');
+    }
+
     const parser = new DOMParser();
-    const doc = parser.parseFromString(xmlText, 'text/xml');
-    
-    const channel = doc.querySelector('channel') || doc.querySelector('feed');
-    if (!channel) {
-      throw new Error('Invalid RSS/Atom feed');
+    const doc = parser.parseFromString(trimmed, 'text/xml');
+    const root = doc.documentElement;
+
+    if (!root || doc.querySelector('parsererror')) {
+      // HTML pages usually aren't well-formed XML, so report them as "not a feed" rather than broken XML
+      if (/<html[\s>]/i.test(trimmed.slice(0, 1000))) {
+        throw new FetchError('not-a-feed', url, 'Response is an HTML page');
+      }
+      throw new FetchError('parse', url, 'The feed is not well-formed XML');
+    }
+
+    switch (this.detectFormat(root)) {
+      case 'atom':
+        return this.parseAtom(root, url);
+      case 'rss1':
+        return this.parseRDF(root, url);
+      case 'rss2':
+        return this.parseRSS2(root, url);
+      default:
+        throw new FetchError('not-a-feed', url, `Unrecognized document type <${root.tagName}>`);
+    }
+  }
+
+  static detectFormat(root: Element): FeedFormat | null {
+    if (root.localName === 'feed' && root.namespaceURI === NAMESPACES.atom) return 'atom';
+    if (root.localName === 'RDF' && root.namespaceURI === NAMESPACES.rdf) return 'rss1';
+    if (root.localName === 'rss' && this.child(root, 'channel')) return 'rss2';
+    return null;
+  }
+
+  private static parseRSS2(root: Element, url: string): RSSFeed {
+    const channel = this.child(root, 'channel') as Element;
+
+    return {
+      title: this.childText(channel, 'title') || 'Unknown Feed',
+      description: this.childText(channel, 'description'),
+      link: this.childText(channel, 'link'),
+      format: 'rss2',
+      image: this.childText(this.child(channel, 'image'), 'url') ||
+        this.child(channel, 'image', NAMESPACES.itunes)?.getAttribute('href') || undefined,
+      ttl: Number(this.childText(channel, 'ttl')) * 60000 || undefined,
+      syndicationInterval: this.syndicationInterval(channel),
+      items: this.children(channel, 'item').map(item => {
+        const description = this.childText(item, 'description');
+        const link = this.childText(item, 'link');
+        return {
+          title: this.childText(item, 'title') || 'Untitled',
+          link,
+          description,
+          content: this.childText(item, 'encoded', NAMESPACES.content) || description,
+          pubDate: this.childText(item, 'pubDate') || this.childText(item, 'date', NAMESPACES.dc),
+          author: this.childText(item, 'creator', NAMESPACES.dc) || this.childText(item, 'author'),
+          guid: this.childText(item, 'guid'),
+          attachments: this.mediaAttachments(item, link, url)
+        };
+      })
+    };
+  }
+
+  private static parseRDF(root: Element, url: string): RSSFeed {
+    const channel = this.child(root, 'channel', NAMESPACES.rss1);
+
+    return {
+      title: this.childText(channel, 'title', NAMESPACES.rss1) || 'Unknown Feed',
+      description: this.childText(channel, 'description', NAMESPACES.rss1),
+      link: this.childText(channel, 'link', NAMESPACES.rss1),
+      format: 'rss1',
+      image: this.childText(this.child(root, 'image', NAMESPACES.rss1), 'url', NAMESPACES.rss1) || undefined,
+      syndicationInterval: this.syndicationInterval(channel),
+      items: this.children(root, 'item', NAMESPACES.rss1).map(item => {
+        const description = this.childText(item, 'description', NAMESPACES.rss1);
+        const link = this.childText(item, 'link', NAMESPACES.rss1);
+        return {
+          title: this.childText(item, 'title', NAMESPACES.rss1) || 'Untitled',
+          link,
+          description,
+          content: this.childText(item, 'encoded', NAMESPACES.content) || description,
+          pubDate: this.childText(item, 'date', NAMESPACES.dc),
+          author: this.childText(item, 'creator', NAMESPACES.dc),
+          guid: item.getAttributeNS(NAMESPACES.rdf, 'about') || link,
+          attachments: this.mediaAttachments(item, link, url)
+        };
+      })
+    };
+  }
+
+  private static parseAtom(root: Element, url: string): RSSFeed {
+    return {
+      title: this.atomText(this.child(root, 'title', NAMESPACES.atom)) || 'Unknown Feed',
+      description: this.atomText(this.child(root, 'subtitle', NAMESPACES.atom)),
+      link: this.atomLink(root),
+      format: 'atom',
+      image: this.childText(root, 'icon', NAMESPACES.atom) || this.childText(root, 'logo', NAMESPACES.atom) || undefined,
+      syndicationInterval: this.syndicationInterval(root),
+      items: this.children(root, 'entry', NAMESPACES.atom).map(entry => {
+        const summary = this.atomText(this.child(entry, 'summary', NAMESPACES.atom));
+        const content = this.atomText(this.child(entry, 'content', NAMESPACES.atom));
+        const author = this.child(entry, 'author', NAMESPACES.atom) || this.child(root, 'author', NAMESPACES.atom);
+        const link = this.atomLink(entry);
+        return {
+          title: this.atomText(this.child(entry, 'title', NAMESPACES.atom)) || 'Untitled',
+          link,
+          description: summary || content,
+          content: content || summary,
+          pubDate: this.childText(entry, 'published', NAMESPACES.atom) || this.childText(entry, 'updated', NAMESPACES.atom),
+          author: this.childText(author, 'name', NAMESPACES.atom),
+          guid: this.childText(entry, 'id', NAMESPACES.atom),
+          attachments: this.mediaAttachments(entry, link, url)
+        };
+      })
+    };
+  }
+
+  // JSON Feed 1.0/1.1 (https://jsonfeed.org/version/1.1)
+  private static parseJSONFeed(text: string, url: string): RSSFeed {
+    let data;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new FetchError('parse', url, 'The JSON feed is not valid JSON');
+    }
+
+    if (typeof data?.version !== 'string' || !data.version.startsWith('https://jsonfeed.org/version/')) {
+      throw new FetchError('not-a-feed', url, 'JSON document is not a JSON Feed');
+    }
+
+    const feedAuthor = data.authors?.[0]?.name || data.author?.name || '';
+    const items = Array.isArray(data.items) ? data.items : [];
+
+    return {
+      title: data.title || 'Unknown Feed',
+      description: data.description || '',
+      link: data.home_page_url || '',
+      format: 'json',
+      image: data.favicon || data.icon || undefined,
+      items: items.map(item => {
+        const content = item.content_html || item.content_text || '';
+        const link = item.url || item.external_url || '';
+        const thumbnail = this.mediaUrl(item.image, link, url);
+        return {
+          title: item.title || 'Untitled',
+          link,
+          description: item.summary || content,
+          content: content || item.summary || '',
+          pubDate: item.date_published || item.date_modified || '',
+          author: item.authors?.[0]?.name || item.author?.name || feedAuthor,
+          guid: item.id !== undefined ? String(item.id) : '',
+          attachments: (Array.isArray(item.attachments) ? item.attachments : [])
+            .map(attachment => ({ attachment, url: this.mediaUrl(attachment?.url, link, url) }))
+            .filter(({ url }) => url)
+            .map(({ attachment, url }) => ({
+              url,
+              mimeType: attachment.mime_type || '',
+              length: attachment.size_in_bytes || undefined,
+              duration: attachment.duration_in_seconds || undefined,
+              thumbnail
+            }))
+        };
+      })
+    };
+  }
+
+  // Collects <enclosure>, Atom rel="enclosure" links and Media RSS content, with iTunes/Media RSS
+  // duration and thumbnail applied to each attachment
+  private static mediaAttachments(item: Element, itemLink: string, feedUrl: string): Attachment[] {
+    const groups = this.children(item, 'group', NAMESPACES.media);
+    const thumbnail = this.mediaUrl([item, ...groups]
+      .map(parent => this.child(parent, 'thumbnail', NAMESPACES.media)?.getAttribute('url'))
+      .find(Boolean) || this.child(item, 'image', NAMESPACES.itunes)?.getAttribute('href'), itemLink, feedUrl);
+    const itemDuration = this.parseDuration(this.childText(item, 'duration', NAMESPACES.itunes));
+
+    const attachments: Attachment[] = [];
+    const add = (value: string | null, mimeType: string, length?: string | null, duration?: number) => {
+      const url = this.mediaUrl(value, itemLink, feedUrl);
+      if (!url || attachments.some(attachment => attachment.url === url)) return;
+      attachments.push({
+        url,
+        mimeType,
+        length: parseInt(length || '', 10) || undefined,
+        duration: duration || itemDuration,
+        thumbnail
+      });
+    };
+
+    for (const enclosure of this.children(item, 'enclosure')) {
+      add(enclosure.getAttribute('url'), enclosure.getAttribute('type') || '', enclosure.getAttribute('length'));
+    }
+
+    for (const link of this.children(item, 'link', NAMESPACES.atom)) {
+      if (link.getAttribute('rel') === 'enclosure') {
+        add(link.getAttribute('href'), link.getAttribute('type') || '', link.getAttribute('length'));
+      }
+    }
+
+    const mediaContents = [item, ...groups].flatMap(parent => this.children(parent, 'content', NAMESPACES.media));
+    for (const media of mediaContents) {
+      const medium = media.getAttribute('medium');
+      add(
+        media.getAttribute('url'),
+        media.getAttribute('type') || (medium ? `${medium}/*` : ''),
+        media.getAttribute('fileSize'),
+        this.parseDuration(media.getAttribute('duration') || '')
+      );
     }
 
-    const title = this.getTextContent(channel, 'title') || 'Unknown Feed';
-    const description = this.getTextContent(channel, 'description') || this.getTextContent(channel, 'subtitle') || '';
-    const link = this.getTextContent(channel, 'link') || '';
+    return attachments;
+  }
 
-    const items = Array.from(doc.querySelectorAll('item, entry')).map(item => ({
-      title: this.getTextContent(item, 'title') || 'Untitled',
-      link: this.getTextContent(item, 'link') || this.getAttributeContent(item, 'link', 'href') || '',
-      description: this.getTextContent(item, 'description') || this.getTextContent(item, 'summary') || this.getTextContent(item, 'content') || '',
-      pubDate: this.getTextContent(item, 'pubDate') || this.getTextContent(item, 'published') || this.getTextContent(item, 'updated') || '',
-      author: this.getTextContent(item, 'author') || this.getTextContent(item, 'dc:creator') || '',
-      guid: this.getTextContent(item, 'guid') || this.getTextContent(item, 'id') || ''
-    }));
+  // Media URLs end up in links and players, so only http(s) ones are kept; relative URLs are read
+  // against the item's link, then the feed's URL
+  private static mediaUrl(value: unknown, itemLink: string, feedUrl: string): string | undefined {
+    if (typeof value !== 'string' || !value.trim()) return undefined;
+    const base = this.parseUrl(itemLink, feedUrl || undefined)?.href || feedUrl || undefined;
+    const url = this.parseUrl(value.trim(), base);
+    return url && (url.protocol === 'http:' || url.protocol === 'https:') ? url.href : undefined;
+  }
 
-    return { title, description, link, items };
+  private static parseUrl(value: string, base?: string): URL | null {
+    try {
+      return new URL(value, base);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // sy:updatePeriod / sy:updateFrequency, e.g. "hourly" twice => every 30 minutes
+  private static syndicationInterval(channel: Element | null): number | undefined {
+    const periods: Record<string, number> = {
+      hourly: 3600000,
+      daily: 86400000,
+      weekly: 604800000,
+      monthly: 2592000000,
+      yearly: 31536000000
+    };
+    const period = periods[this.childText(channel, 'updatePeriod', NAMESPACES.sy).toLowerCase()];
+    if (!period) return undefined;
+    const frequency = Number(this.childText(channel, 'updateFrequency', NAMESPACES.sy)) || 1;
+    return Math.round(period / frequency);
   }
 
-  private static getTextContent(parent: Element, tagName: string): string {
-    const element = parent.querySelector(tagName);
-    return element?.textContent?.trim() || '';
+  // Accepts plain seconds or [[HH:]MM:]SS as used by itunes:duration
+  private static parseDuration(value: string): number | undefined {
+    if (!value) return undefined;
+    const seconds = value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
   }
 
-  private static getAttributeContent(parent: Element, tagName: string, attributeName: string): string {
-    const element = parent.querySelector(tagName);
-    return element?.getAttribute(attributeName) || '';
+  // Atom links: prefer rel="alternate" (or no rel), never rel="self"
+  private static atomLink(parent: Element): string {
+    const links = this.children(parent, 'link', NAMESPACES.atom);
+    const alternate = links.find(link => (link.getAttribute('rel') || 'alternate') === 'alternate');
+    return (alternate || links.find(link => link.getAttribute('rel') !== 'self'))?.getAttribute('href') || '';
   }
 
-  // Demo data for development
+  // Atom text constructs may be text, escaped html or inline xhtml
+  private static atomText(element: Element | null): string {
+    if (!element) return '';
+    if (element.getAttribute('type') === 'xhtml') {
+      const div = this.child(element, 'div', NAMESPACES.xhtml);
+      return (div || element).innerHTML.replace(/ xmlns="[^"]*"/g, '').trim();
+    }
+    return element.textContent?.trim() || '';
+  }
+
+  // Direct children only, matched by local name and namespace (null = no namespace)
+  private static children(parent: Element | null, localName: string, namespace: string | null = null): Element[] {
+    if (!parent) return [];
+    return Array.from(parent.children).filter(el =>
+      el.localName === localName && (namespace === null ? !el.namespaceURI : el.namespaceURI === namespace)
+    );
+  }
+
+  private static child(parent: Element | null, localName: string, namespace: string | null = null): Element | null {
+    return this.children(parent, localName, namespace)[0] || null;
+  }
+
+  private static childText(parent: Element | null, localName: string, namespace: string | null = null): string {
+    return this.child(parent, localName, namespace)?.textContent?.trim() || '';
+  }
+
+  // Demo data, only used when demo mode is enabled in settings
   private static getDemoFeed(url: string): RSSFeed {
     return {
       title: 'Demo RSS Feed',
       description: 'A demonstration RSS feed with sample articles',
       link: url,
+      format: 'rss2',
       items: [
         {
           title: 'Getting Started with RSS Readers',
@@ -100,3 +427,5 @@ export class RSSParser {
     };
   }
 }
+
+export type { RSSItem, RSSFeed, FeedFormat, FeedValidators, ConditionalFetchResult };
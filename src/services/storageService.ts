@@ -1,3 +1,8 @@
+import type { RetentionPolicy } from './appSettings';
+import { ArticleDedup } from './articleDedup';
+
+// How archived images are referenced from article content (see ImageArchive)
+const IMAGE_REFERENCE = /readlater-image:([0-9a-f]{64})/g;
 
 interface Feed {
   id: string;
@@ -7,22 +12,120 @@ interface Feed {
   category: string;
   lastUpdated: number;
   updateInterval: number;
-  favicon?: string;
+  siteUrl?: string;
+  favicon?: string; // data URL, cached so it works offline
+  faviconCheckedAt?: number;
+  // HTTP caching and publisher update hints, recorded on each refresh
+  etag?: string;
+  lastModified?: string;
+  cacheMaxAge?: number;
+  ttl?: number;
+  syndicationInterval?: number;
+  retention?: RetentionPolicy; // overrides the global policy field by field
+  removedItems?: string[]; // guids or links of articles removed by retention, never fetched again
+  fetchFullContent?: boolean; // extract each new item's page, for feeds that only publish excerpts
 }
 
 interface Article {
   id: string;
   feedId?: string;
+  guid?: string;
   title: string;
   author?: string;
   publishDate: number;
   content: string;
+  fullContent?: string; // sanitized HTML extracted from the original page, kept next to the feed's excerpt
   summary?: string;
   url: string;
   isRead: boolean;
+  starredAt?: number; // set while starred; indexed, so only starred articles appear in the index
+  clusterId?: string; // id of the first stored copy of the same story from another feed
   tags: string[];
   notes?: string;
   highlights?: Highlight[];
+  attachments?: Attachment[];
+  snapshot?: { id: string; size: number }; // single-file copy of the page kept in the snapshots store
+  urlKey?: string; // normalized url, set on every write and indexed so copies of a story are found without a scan
+  detachedFrom?: string; // normalized url of the feed it was kept from when unsubscribing; re-adding that feed reattaches it
+  imageHashes?: string[]; // archived images the content references, set on every write and indexed to find unused images
+  unreadFeedId?: string; // feedId while unread, set on every write; IndexedDB can't index isRead, a boolean, so counts use this
+}
+
+interface Attachment {
+  url: string;
+  mimeType: string;
+  length?: number;
+  duration?: number; // seconds
+  thumbnail?: string;
+}
+
+// The total and the tags in use, read from keys without the article bodies
+interface ArticleOverview {
+  total: number;
+  tags: string[];
+}
+
+// Tags and starring are counted from index keys; only a body matcher, such as a text search, reads articles,
+// and then only those the other conditions leave
+interface ArticleCountQuery {
+  tags?: string[]; // any of them
+  starredOnly?: boolean;
+  matches?: (article: Article) => boolean;
+}
+
+// Position after the last article of a page: its index key and id, which breaks ties between equal keys
+interface ArticleCursor {
+  key: number;
+  id: string;
+}
+
+interface ArticlePageQuery {
+  index: 'publishDate' | 'starredAt'; // newest first
+  limit: number;
+  after?: ArticleCursor;
+  feedIds?: string[]; // only these feeds' articles, read through the feedPublishDate index; publishDate only
+  filter?: (article: Article) => boolean;
+}
+
+// Articles matching any of the given keys; each list is looked up through its own index
+interface ArticleLookup {
+  ids?: string[];
+  clusterIds?: string[];
+  guids?: string[];
+  urlKeys?: string[];
+  detachedFrom?: string;
+  publishedWithin?: [number, number][];
+}
+
+// Cheap to read after every change: only index keys are visited, not article bodies
+interface ArticleCounts {
+  unreadByFeed: Record<string, number>;
+  unread: number; // feed articles only, like the lists
+  starred: number;
+}
+
+interface ArticlePage {
+  articles: Article[];
+  next: ArticleCursor | null; // null once the index is exhausted
+}
+
+// An image downloaded for offline reading, shared by every article that references the same bytes
+interface ArchivedImage {
+  hash: string; // SHA-256 of the content, hex
+  blob: Blob;
+  type: string;
+  size: number;
+  sourceUrl: string; // where it was first downloaded from
+  savedAt: number;
+}
+
+// A self-contained, script-free copy of a page as it looked when it was saved
+interface PageSnapshot {
+  id: string;
+  url: string;
+  html: string; // stylesheets and images inlined as data URLs
+  size: number; // bytes
+  savedAt: number;
 }
 
 interface Highlight {
@@ -37,7 +140,7 @@ interface Highlight {
 class StorageService {
   private db: IDBDatabase | null = null;
   private dbName = 'ReadLaterApp';
-  private version = 1;
+  private version = 10;
 
   async init(): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -51,6 +154,7 @@ class StorageService {
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
+        const upgradeTransaction = (event.target as IDBOpenDBRequest).transaction;
 
         // Create feeds store
         if (!db.objectStoreNames.contains('feeds')) {
@@ -68,36 +172,112 @@ class StorageService {
           articlesStore.createIndex('tags', 'tags', { unique: false, multiEntry: true });
         }
 
+        // Add indexes introduced after the articles store was created
+        const upgradedArticlesStore = upgradeTransaction?.objectStore('articles');
+        if (upgradedArticlesStore && !upgradedArticlesStore.indexNames.contains('starredAt')) {
+          upgradedArticlesStore.createIndex('starredAt', 'starredAt', { unique: false });
+        }
+        if (upgradedArticlesStore && !upgradedArticlesStore.indexNames.contains('urlKey')) {
+          upgradedArticlesStore.createIndex('guid', 'guid', { unique: false });
+          upgradedArticlesStore.createIndex('urlKey', 'urlKey', { unique: false });
+          upgradedArticlesStore.createIndex('detachedFrom', 'detachedFrom', { unique: false });
+        }
+        if (upgradedArticlesStore && !upgradedArticlesStore.indexNames.contains('imageHashes')) {
+          upgradedArticlesStore.createIndex('imageHashes', 'imageHashes', { unique: false, multiEntry: true });
+        }
+        if (upgradedArticlesStore && !upgradedArticlesStore.indexNames.contains('unreadFeedId')) {
+          upgradedArticlesStore.createIndex('unreadFeedId', 'unreadFeedId', { unique: false });
+          upgradedArticlesStore.createIndex('clusterId', 'clusterId', { unique: false });
+        }
+        // Compound keys leave out records missing either part, so articles without a feed aren't indexed
+        if (upgradedArticlesStore && !upgradedArticlesStore.indexNames.contains('feedPublishDate')) {
+          upgradedArticlesStore.createIndex('feedPublishDate', ['feedId', 'publishDate'], { unique: false });
+          upgradedArticlesStore.createIndex('feedStarredAt', ['feedId', 'starredAt'], { unique: false });
+        }
+
+        // Derived keys are recomputed whenever what they're derived from changes (version 6 added urlKey,
+        // version 7 narrowed the tracking parameters it drops, version 8 added imageHashes, version 9
+        // unreadFeedId). Images left behind by articles deleted before version 8 are removed once every
+        // article has its hashes.
+        if (upgradedArticlesStore && event.oldVersion > 0 && event.oldVersion < 9) {
+          const rekey = upgradedArticlesStore.openCursor();
+          rekey.onsuccess = () => {
+            const cursor = rekey.result;
+            if (cursor) {
+              cursor.update(this.withLookupKeys(cursor.value as Article));
+              cursor.continue();
+              return;
+            }
+            if (!db.objectStoreNames.contains('images')) return;
+
+            const images = upgradeTransaction!.objectStore('images');
+            const hashes = images.getAllKeys();
+            hashes.onsuccess = () => (hashes.result as string[]).forEach(hash =>
+              this.deleteImageIfUnused(upgradedArticlesStore, images, hash)
+            );
+          };
+        }
+
         // Create highlights store
         if (!db.objectStoreNames.contains('highlights')) {
           const highlightsStore = db.createObjectStore('highlights', { keyPath: 'id' });
           highlightsStore.createIndex('articleId', 'articleId', { unique: false });
         }
 
+        // Create playback positions store
+        if (!db.objectStoreNames.contains('playback')) {
+          db.createObjectStore('playback', { keyPath: 'articleId' });
+        }
+
         // Create settings store
         if (!db.objectStoreNames.contains('settings')) {
           db.createObjectStore('settings', { keyPath: 'key' });
         }
+
+        // Create archived images store
+        if (!db.objectStoreNames.contains('images')) {
+          db.createObjectStore('images', { keyPath: 'hash' });
+        }
+
+        // Create page snapshots store
+        if (!db.objectStoreNames.contains('snapshots')) {
+          db.createObjectStore('snapshots', { keyPath: 'id' });
+        }
       };
     });
   }
 
-  async saveArticle(article: Omit<Article, 'id'>): Promise<string> {
+  // A page snapshot and archived images, when given, are stored in the same transaction, so none of them
+  // is kept without the others
+  async saveArticle(article: Omit<Article, 'id'>, snapshot?: Omit<PageSnapshot, 'id'>, images: ArchivedImage[] = []): Promise<string> {
     const id = `article_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const fullArticle: Article = { ...article, id };
-    
+    const snapshotId = `snapshot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const fullArticle = this.withLookupKeys({
+      ...article,
+      id,
+      ...(snapshot ? { snapshot: { id: snapshotId, size: snapshot.size } } : {})
+    });
+
     return new Promise((resolve, reject) => {
       if (!this.db) {
         reject(new Error('Database not initialized'));
         return;
       }
 
-      const transaction = this.db.transaction(['articles'], 'readwrite');
-      const store = transaction.objectStore('articles');
-      const request = store.add(fullArticle);
+      const stores = ['articles', ...(snapshot ? ['snapshots'] : []), ...(images.length > 0 ? ['images'] : [])];
+      const transaction = this.db.transaction(stores, 'readwrite');
+      transaction.oncomplete = () => resolve(id);
+      transaction.onerror = () => reject(transaction.error);
 
-      request.onsuccess = () => resolve(id);
-      request.onerror = () => reject(request.error);
+      try {
+        transaction.objectStore('articles').add(fullArticle);
+        if (snapshot) transaction.objectStore('snapshots').add({ ...snapshot, id: snapshotId });
+        if (images.length > 0) this.addImages(transaction.objectStore('images'), images);
+      } catch (error) {
+        // e.g. a value that can't be stored; the article must not be saved without its snapshot
+        transaction.abort();
+        reject(error);
+      }
     });
   }
 
@@ -117,6 +297,271 @@ class StorageService {
     });
   }
 
+  // Walks an index newest first, so lists only read as many records as they show
+  async getArticlePage(query: ArticlePageQuery): Promise<ArticlePage> {
+    if (query.feedIds) return this.getFeedArticlePage(query, query.feedIds);
+
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['articles'], 'readonly');
+      const index = transaction.objectStore('articles').index(query.index);
+      const range = query.after ? IDBKeyRange.upperBound(query.after.key) : null;
+      const request = index.openCursor(range, 'prev');
+      const articles: Article[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve({ articles, next: null });
+          return;
+        }
+
+        // Records sharing the previous page's last key come in descending id order; skip the ones already seen
+        const after = query.after;
+        if (after && cursor.key === after.key && String(cursor.primaryKey) >= after.id) {
+          cursor.continue();
+          return;
+        }
+
+        const article = cursor.value as Article;
+        if (!query.filter || query.filter(article)) {
+          articles.push(article);
+        }
+
+        if (articles.length === query.limit) {
+          resolve({ articles, next: { key: cursor.key as number, id: String(cursor.primaryKey) } });
+          return;
+        }
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Reads up to a page from each feed's range of the compound index, newest first, and keeps the newest
+  // across them, so a small feed is listed without walking every other feed's articles
+  private async getFeedArticlePage(query: ArticlePageQuery, feedIds: string[]): Promise<ArticlePage> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['articles'], 'readonly');
+      const index = transaction.objectStore('articles').index('feedPublishDate');
+      const after = query.after;
+      const found: { article: Article; key: number }[] = [];
+
+      new Set(feedIds).forEach(feedId => {
+        const range = IDBKeyRange.bound([feedId], [feedId, after ? after.key : Infinity]);
+        const request = index.openCursor(range, 'prev');
+        let taken = 0;
+
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+
+          const key = (cursor.key as [string, number])[1];
+          if (after && key === after.key && String(cursor.primaryKey) >= after.id) {
+            cursor.continue();
+            return;
+          }
+
+          const article = cursor.value as Article;
+          if (!query.filter || query.filter(article)) {
+            found.push({ article, key });
+            taken++;
+          }
+          if (taken < query.limit) cursor.continue();
+        };
+      });
+
+      transaction.oncomplete = () => {
+        // Same order as a single index walk: newest first, then descending id between equal keys
+        found.sort((a, b) => b.key - a.key || (a.article.id < b.article.id ? 1 : a.article.id > b.article.id ? -1 : 0));
+        const page = found.slice(0, query.limit);
+        const last = page[page.length - 1];
+        resolve({
+          articles: page.map(entry => entry.article),
+          next: page.length === query.limit ? { key: last.key, id: last.article.id } : null
+        });
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async countArticles(query: ArticleCountQuery): Promise<number> {
+    const candidates = await this.getCandidateIds(query);
+    if (!query.matches) {
+      return candidates ? candidates.size : this.countAllArticles();
+    }
+
+    const matches = query.matches;
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['articles'], 'readonly');
+      const store = transaction.objectStore('articles');
+      let count = 0;
+
+      if (candidates) {
+        candidates.forEach(id => {
+          const request = store.get(id);
+          request.onsuccess = () => {
+            if (request.result && matches(request.result as Article)) count++;
+          };
+        });
+      } else {
+        const request = store.openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+          if (matches(cursor.value as Article)) count++;
+          cursor.continue();
+        };
+      }
+
+      transaction.oncomplete = () => resolve(count);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Ids allowed by the tag and starred conditions, from index keys; null when neither restricts anything
+  private async getCandidateIds(query: ArticleCountQuery): Promise<Set<string> | null> {
+    if (!query.tags?.length && !query.starredOnly) return null;
+
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['articles'], 'readonly');
+      const store = transaction.objectStore('articles');
+      const tagged = new Set<string>();
+      const starred = new Set<string>();
+
+      new Set(query.tags).forEach(tag => {
+        const request = store.index('tags').getAllKeys(tag);
+        request.onsuccess = () => request.result.forEach(id => tagged.add(String(id)));
+      });
+      if (query.starredOnly) {
+        const request = store.index('starredAt').getAllKeys();
+        request.onsuccess = () => request.result.forEach(id => starred.add(String(id)));
+      }
+
+      transaction.oncomplete = () => {
+        if (!query.tags?.length) resolve(starred);
+        else if (!query.starredOnly) resolve(tagged);
+        else resolve(new Set([...tagged].filter(id => starred.has(id))));
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private async countAllArticles(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const request = this.db.transaction(['articles'], 'readonly').objectStore('articles').count();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getArticleOverview(): Promise<ArticleOverview> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['articles'], 'readonly');
+      const store = transaction.objectStore('articles');
+      const overview: ArticleOverview = { total: 0, tags: [] };
+
+      const total = store.count();
+      total.onsuccess = () => {
+        overview.total = total.result;
+      };
+
+      // One step per distinct tag, however many articles carry it
+      const tags = store.index('tags').openKeyCursor(null, 'nextunique');
+      tags.onsuccess = () => {
+        const cursor = tags.result;
+        if (!cursor) return;
+        overview.tags.push(String(cursor.key));
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => resolve(overview);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Applies the same change to several articles in one transaction and returns the updated records
+  async patchArticles(ids: string[], patch: Partial<Article>): Promise<Article[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['articles'], 'readwrite');
+      const store = transaction.objectStore('articles');
+      const updated: Article[] = [];
+
+      ids.forEach(id => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+          if (!request.result) return;
+          const article = this.withLookupKeys({ ...request.result, ...patch });
+          store.put(article);
+          updated.push(article);
+        };
+      });
+
+      transaction.oncomplete = () => resolve(updated);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Patches an article and stores the archived images its new content references in one transaction.
+  // A deleted article stays deleted, its images aren't stored, and null is returned.
+  async patchArticleWithImages(id: string, patch: Partial<Article>, images: ArchivedImage[]): Promise<Article | null> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['articles', 'images'], 'readwrite');
+      const store = transaction.objectStore('articles');
+      let updated: Article | null = null;
+
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (!request.result) return;
+        updated = this.withLookupKeys({ ...request.result, ...patch });
+        store.put(updated);
+        this.addImages(transaction.objectStore('images'), images);
+      };
+
+      transaction.oncomplete = () => resolve(updated);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   async updateArticle(article: Article): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
@@ -126,14 +571,14 @@ class StorageService {
 
       const transaction = this.db.transaction(['articles'], 'readwrite');
       const store = transaction.objectStore('articles');
-      const request = store.put(article);
+      const request = store.put(this.withLookupKeys(article));
 
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
     });
   }
 
-  async deleteArticle(id: string): Promise<void> {
+  async updateArticles(articles: Article[]): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
         reject(new Error('Database not initialized'));
@@ -142,13 +587,80 @@ class StorageService {
 
       const transaction = this.db.transaction(['articles'], 'readwrite');
       const store = transaction.objectStore('articles');
-      const request = store.delete(id);
+      articles.forEach(article => store.put(this.withLookupKeys(article)));
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async deleteArticle(id: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['articles', 'snapshots', 'images'], 'readwrite');
+      this.deleteById(transaction, id);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
     });
   }
 
+  // Each article is read again in the deleting transaction; those that are gone or that `keep` accepts
+  // as they are now stay. Resolves with the articles actually deleted.
+  async deleteArticles(ids: string[], keep?: (article: Article) => boolean): Promise<Article[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['articles', 'snapshots', 'images'], 'readwrite');
+      const deleted: Article[] = [];
+      ids.forEach(id => {
+        const request = transaction.objectStore('articles').get(id);
+        request.onsuccess = () => {
+          const article = request.result as Article | undefined;
+          if (!article || keep?.(article)) return;
+          this.deleteWithDependents(transaction, article);
+          deleted.push(article);
+        };
+      });
+
+      transaction.oncomplete = () => resolve(deleted);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private deleteById(transaction: IDBTransaction, id: string) {
+    const request = transaction.objectStore('articles').get(id);
+    request.onsuccess = () => {
+      if (request.result) this.deleteWithDependents(transaction, request.result);
+    };
+  }
+
+  // Snapshots belong to a single article, so they go when it does; archived images are shared
+  // between articles and go once the last article referencing them is deleted
+  private deleteWithDependents(transaction: IDBTransaction, article: Article) {
+    const articles = transaction.objectStore('articles');
+    if (article.snapshot) transaction.objectStore('snapshots').delete(article.snapshot.id);
+    articles.delete(article.id);
+
+    const images = transaction.objectStore('images');
+    article.imageHashes?.forEach(hash => this.deleteImageIfUnused(articles, images, hash));
+  }
+
+  // Requests in a transaction run in order, so the count sees every delete issued before it
+  private deleteImageIfUnused(articles: IDBObjectStore, images: IDBObjectStore, hash: string) {
+    const references = articles.index('imageHashes').count(hash);
+    references.onsuccess = () => {
+      if (references.result === 0) images.delete(hash);
+    };
+  }
+
   async saveFeed(feed: Omit<Feed, 'id'>): Promise<string> {
     const id = `feed_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const fullFeed: Feed = { ...feed, id };
@@ -184,6 +696,327 @@ class StorageService {
     });
   }
 
+  async getArticlesByFeed(feedId: string): Promise<Article[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['articles'], 'readonly');
+      const store = transaction.objectStore('articles');
+      const request = store.index('feedId').getAll(feedId);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // One transaction for all keys; an article matching several of them is returned once
+  async findArticles(lookup: ArticleLookup): Promise<Article[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['articles'], 'readonly');
+      const store = transaction.objectStore('articles');
+      const found = new Map<string, Article>();
+      const collect = (index: string, query: IDBValidKey | IDBKeyRange) => {
+        const request = store.index(index).getAll(query);
+        request.onsuccess = () => (request.result as Article[]).forEach(article => found.set(article.id, article));
+      };
+
+      new Set(lookup.ids).forEach(id => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+          if (request.result) found.set(id, request.result);
+        };
+      });
+      new Set(lookup.clusterIds).forEach(clusterId => collect('clusterId', clusterId));
+      new Set(lookup.guids).forEach(guid => collect('guid', guid));
+      new Set(lookup.urlKeys).forEach(urlKey => collect('urlKey', urlKey));
+      if (lookup.detachedFrom) collect('detachedFrom', lookup.detachedFrom);
+      lookup.publishedWithin?.forEach(([from, to]) => collect('publishDate', IDBKeyRange.bound(from, to)));
+
+      transaction.oncomplete = () => resolve([...found.values()]);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getArticleCounts(): Promise<ArticleCounts> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['articles'], 'readonly');
+      const store = transaction.objectStore('articles');
+      const counts: ArticleCounts = { unreadByFeed: {}, unread: 0, starred: 0 };
+
+      const unread = store.index('unreadFeedId').openKeyCursor();
+      unread.onsuccess = () => {
+        const cursor = unread.result;
+        if (!cursor) return;
+        const feedId = cursor.key as string;
+        counts.unreadByFeed[feedId] = (counts.unreadByFeed[feedId] || 0) + 1;
+        counts.unread++;
+        cursor.continue();
+      };
+
+      // Starred articles saved outside the reader have no feed and are absent from this index
+      const starred = store.index('feedStarredAt').count();
+      starred.onsuccess = () => {
+        counts.starred = starred.result;
+      };
+
+      transaction.oncomplete = () => resolve(counts);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Unread articles of the given feeds, through the index the counts come from
+  async getUnreadArticles(feedIds: string[]): Promise<Article[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['articles'], 'readonly');
+      const index = transaction.objectStore('articles').index('unreadFeedId');
+      const articles: Article[] = [];
+
+      new Set(feedIds).forEach(feedId => {
+        const request = index.getAll(feedId);
+        request.onsuccess = () => articles.push(...request.result);
+      });
+
+      transaction.oncomplete = () => resolve(articles);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Starred articles, most recently starred first; unstarred articles are absent from the index
+  async getStarredArticles(): Promise<Article[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['articles'], 'readonly');
+      const store = transaction.objectStore('articles');
+      const request = store.index('starredAt').getAll();
+
+      request.onsuccess = () => resolve((request.result as Article[]).reverse());
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async updateFeed(feed: Feed): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['feeds'], 'readwrite');
+      const store = transaction.objectStore('feeds');
+      const request = store.put(feed);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getFeed(id: string): Promise<Feed | undefined> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['feeds'], 'readonly');
+      const store = transaction.objectStore('feeds');
+      const request = store.get(id);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Reads and writes in one transaction, so fields changed elsewhere in the meantime are kept.
+  // A feed that was deleted stays deleted and null is returned.
+  async patchFeed(id: string, patch: Partial<Feed> | ((feed: Feed) => Partial<Feed>)): Promise<Feed | null> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['feeds'], 'readwrite');
+      const store = transaction.objectStore('feeds');
+      const request = store.get(id);
+      let updated: Feed | null = null;
+
+      request.onsuccess = () => {
+        const feed: Feed | undefined = request.result;
+        if (!feed) return;
+        updated = { ...feed, ...(typeof patch === 'function' ? patch(feed) : patch), id };
+        store.put(updated);
+      };
+
+      transaction.oncomplete = () => resolve(updated);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Unsubscribes from a feed. Articles are either kept or deleted, but starred articles and ones
+  // with notes, highlights or tags are always kept; kept articles are detached from the feed.
+  async deleteFeed(id: string, options: { deleteArticles: boolean }): Promise<{ deleted: number; kept: number }> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['feeds', 'articles', 'snapshots', 'images'], 'readwrite');
+      const articlesStore = transaction.objectStore('articles');
+      const counts = { deleted: 0, kept: 0 };
+
+      const feedRequest = transaction.objectStore('feeds').get(id);
+      const request = articlesStore.index('feedId').getAll(id);
+      request.onsuccess = () => {
+        const feed = feedRequest.result as Feed | undefined;
+        const detachedFrom = feed ? ArticleDedup.normalizeUrl(feed.url) : undefined;
+        for (const article of request.result as Article[]) {
+          if (options.deleteArticles && !this.isProtected(article)) {
+            this.deleteWithDependents(transaction, article);
+            counts.deleted++;
+          } else {
+            articlesStore.put(this.withLookupKeys({ ...article, feedId: undefined, detachedFrom }));
+            counts.kept++;
+          }
+        }
+        transaction.objectStore('feeds').delete(id);
+      };
+
+      transaction.oncomplete = () => resolve(counts);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private withLookupKeys(article: Article): Article {
+    const content = `${article.content || ''}\n${article.fullContent || ''}`;
+    const imageHashes = [...new Set([...content.matchAll(IMAGE_REFERENCE)].map(match => match[1]))];
+    return {
+      ...article,
+      urlKey: article.url ? ArticleDedup.normalizeUrl(article.url) : undefined,
+      imageHashes: imageHashes.length > 0 ? imageHashes : undefined,
+      unreadFeedId: article.feedId && !article.isRead ? article.feedId : undefined
+    };
+  }
+
+  // Protected articles are never removed by unsubscribing or cleanup
+  isProtected(article: Article): boolean {
+    return Boolean(article.starredAt) ||
+      Boolean(article.notes?.trim()) ||
+      (article.highlights?.length || 0) > 0 ||
+      article.tags.length > 0;
+  }
+
+  async getPlaybackPosition(articleId: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['playback'], 'readonly');
+      const store = transaction.objectStore('playback');
+      const request = store.get(articleId);
+
+      request.onsuccess = () => resolve(request.result?.position || 0);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async savePlaybackPosition(articleId: string, position: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['playback'], 'readwrite');
+      const store = transaction.objectStore('playback');
+      const request = store.put({ articleId, position, updatedAt: Date.now() });
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getImage(hash: string): Promise<ArchivedImage | undefined> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['images'], 'readonly');
+      const store = transaction.objectStore('images');
+      const request = store.get(hash);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Identical images are stored once; saving bytes that are already archived keeps the first record
+  async saveImage(image: ArchivedImage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['images'], 'readwrite');
+      this.addImages(transaction.objectStore('images'), [image]);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private addImages(store: IDBObjectStore, images: ArchivedImage[]) {
+    new Map(images.map(image => [image.hash, image])).forEach(image => {
+      const request = store.getKey(image.hash);
+      request.onsuccess = () => {
+        if (request.result === undefined) store.add(image);
+      };
+    });
+  }
+
+  async getSnapshot(id: string): Promise<PageSnapshot | undefined> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(['snapshots'], 'readonly');
+      const store = transaction.objectStore('snapshots');
+      const request = store.get(id);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   async searchArticles(query: string): Promise<Article[]> {
     const articles = await this.getArticles();
     const lowercaseQuery = query.toLowerCase();
@@ -191,6 +1024,7 @@ class StorageService {
     return articles.filter(article =>
       article.title.toLowerCase().includes(lowercaseQuery) ||
       article.content.toLowerCase().includes(lowercaseQuery) ||
+      article.fullContent?.toLowerCase().includes(lowercaseQuery) ||
       article.summary?.toLowerCase().includes(lowercaseQuery) ||
       article.tags.some(tag => tag.toLowerCase().includes(lowercaseQuery))
     );
@@ -198,4 +1032,4 @@ class StorageService {
 }
 
 export const storageService = new StorageService();
-export type { Feed, Article, Highlight };
+export type { Feed, Article, ArticleOverview, ArticleCounts, ArticleCursor, ArticlePage, ArchivedImage, PageSnapshot, Highlight, Attachment };
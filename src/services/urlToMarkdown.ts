@@ -1,147 +1,82 @@
 
+import { AppSettings } from './appSettings';
+import { fetchText } from './fetchClient';
+import { ContentExtractor } from './contentExtractor';
+import { HTMLToMarkdown } from './htmlToMarkdown';
+
+// What is known about a converted page; batch conversions list their pages in sources instead of a url
+interface PageMetadata {
+  title: string;
+  author?: string;
+  description?: string;
+  siteName?: string;
+  leadImage?: string;
+  publishDate?: number; // ms since epoch
+  url?: string;
+  sources?: string[];
+  extractedAt: string; // ISO date
+}
+
 export class URLToMarkdownConverter {
-  static async convertURL(url: string): Promise<{ markdown: string; title: string; metadata: any }> {
-    try {
-      // Note: In a real implementation, this would need a backend service
-      // For demo purposes, we'll simulate the conversion
-      const response = await fetch(url);
-      const html = await response.text();
-      return this.convertHTMLToMarkdown(html, url);
-    } catch (error) {
-      console.error('URL conversion failed:', error);
+  // The fetched page comes back too, so a snapshot shows exactly what was converted (none in demo mode)
+  static async convertURL(url: string): Promise<{ markdown: string; title: string; metadata: PageMetadata; html?: string }> {
+    if (AppSettings.isDemoMode()) {
       return this.getDemoMarkdown(url);
     }
+
+    // Routed directly or through the CORS proxy according to the network settings
+    const html = await fetchText(url, { accept: 'text/html, application/xhtml+xml, */*;q=0.8' });
+    return { ...this.convertHTMLToMarkdown(html, url), html };
   }
 
-  static convertHTMLToMarkdown(html: string, originalUrl: string): { markdown: string; title: string; metadata: any } {
+  static convertHTMLToMarkdown(html: string, originalUrl: string): { markdown: string; title: string; metadata: PageMetadata } {
     const parser = new DOMParser();
     const doc = parser.parseFromString(html, 'text/html');
+    const extracted = ContentExtractor.extract(doc, originalUrl);
     
-    // Extract metadata
-    const title = doc.querySelector('title')?.textContent || 'Untitled Article';
-    const author = doc.querySelector('meta[name="author"]')?.getAttribute('content') || '';
-    const description = doc.querySelector('meta[name="description"]')?.getAttribute('content') || '';
-    
-    // Remove scripts, styles, and navigation elements
-    const elementsToRemove = ['script', 'style', 'nav', 'header', 'footer', '.advertisement', '.sidebar'];
-    elementsToRemove.forEach(selector => {
-      doc.querySelectorAll(selector).forEach(el => el.remove());
-    });
-
-    // Find main content (simplified heuristic)
-    const contentSelectors = ['article', 'main', '.content', '.post', '.entry'];
-    let mainContent = null;
-    
-    for (const selector of contentSelectors) {
-      mainContent = doc.querySelector(selector);
-      if (mainContent) break;
-    }
-    
-    if (!mainContent) {
-      mainContent = doc.body;
-    }
-
-    // Convert to markdown (simplified)
-    const markdown = this.htmlToMarkdown(mainContent);
+    const markdown = HTMLToMarkdown.convert(extracted.content);
     
-    const metadata = {
-      title,
-      author,
-      description,
+    const metadata: PageMetadata = {
+      title: extracted.title,
+      author: extracted.byline,
+      description: extracted.excerpt,
+      siteName: extracted.siteName,
+      leadImage: extracted.leadImage,
+      publishDate: extracted.publishDate,
       url: originalUrl,
       extractedAt: new Date().toISOString()
     };
 
-    return { markdown, title, metadata };
+    return { markdown, title: extracted.title, metadata };
   }
 
-  private static htmlToMarkdown(element: Element): string {
-    let markdown = '';
-    
-    for (const node of Array.from(element.childNodes)) {
-      if (node.nodeType === Node.TEXT_NODE) {
-        markdown += node.textContent;
-      } else if (node.nodeType === Node.ELEMENT_NODE) {
-        const el = node as Element;
-        const tagName = el.tagName.toLowerCase();
-        
-        switch (tagName) {
-          case 'h1':
-            markdown += `# ${el.textContent}\n\n`;
-            break;
-          case 'h2':
-            markdown += `## ${el.textContent}\n\n`;
-            break;
-          case 'h3':
-            markdown += `### ${el.textContent}\n\n`;
-            break;
-          case 'h4':
-            markdown += `#### ${el.textContent}\n\n`;
-            break;
-          case 'h5':
-            markdown += `##### ${el.textContent}\n\n`;
-            break;
-          case 'h6':
-            markdown += `###### ${el.textContent}\n\n`;
-            break;
-          case 'p':
-            markdown += `${el.textContent}\n\n`;
-            break;
-          case 'strong':
-          case 'b':
-            markdown += `**${el.textContent}**`;
-            break;
-          case 'em':
-          case 'i':
-            markdown += `*${el.textContent}*`;
-            break;
-          case 'a':
-            const href = el.getAttribute('href') || '';
-            markdown += `[${el.textContent}](${href})`;
-            break;
-          case 'img':
-            const src = el.getAttribute('src') || '';
-            const alt = el.getAttribute('alt') || '';
-            markdown += `![${alt}](${src})\n\n`;
-            break;
-          case 'ul':
-            markdown += this.processListItems(el, '-') + '\n';
-            break;
-          case 'ol':
-            markdown += this.processListItems(el, '1.') + '\n';
-            break;
-          case 'blockquote':
-            markdown += `> ${el.textContent}\n\n`;
-            break;
-          case 'code':
-            markdown += `\`${el.textContent}\``;
-            break;
-          case 'pre':
-            markdown += `\`\`\`\n${el.textContent}\n\`\`\`\n\n`;
-            break;
-          default:
-            markdown += this.htmlToMarkdown(el);
-        }
-      }
+  // The page's main content as HTML, for showing an article in full when its feed only has an excerpt
+  static async fetchArticleHTML(url: string): Promise<{ html: string; title: string }> {
+    if (AppSettings.isDemoMode()) {
+      return this.getDemoHTML();
     }
-    
-    return markdown;
+
+    const html = await fetchText(url, { accept: 'text/html, application/xhtml+xml, */*;q=0.8' });
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const { content, title } = ContentExtractor.extract(doc, url);
+    return { html: content.innerHTML, title };
   }
 
-  private static processListItems(listElement: Element, marker: string): string {
-    let markdown = '';
-    const items = listElement.querySelectorAll('li');
-    
-    items.forEach((item, index) => {
-      const itemMarker = marker === '1.' ? `${index + 1}.` : marker;
-      markdown += `${itemMarker} ${item.textContent}\n`;
-    });
-    
-    return markdown;
+  // Demo data, only used when demo mode is enabled in settings
+  private static getDemoHTML(): { html: string; title: string } {
+    return {
+      title: 'Sample Full Article',
+      html: `<p>This is the full text of a sample article, fetched from the original page because the feed only
+included an excerpt.</p>
+<h2>Why full text matters</h2>
+<p>Many feeds publish just the first paragraph of each post. Reading the complete article inside the app
+keeps you focused and lets highlights, notes and summaries work on the real content.</p>
+<blockquote>Reader view strips navigation, ads and scripts, leaving only the article.</blockquote>
+<p>Use the typography controls to pick a comfortable font size, line width and typeface.</p>`
+    };
   }
 
-  // Demo data for development
-  private static getDemoMarkdown(url: string): { markdown: string; title: string; metadata: any } {
+  private static getDemoMarkdown(url: string): { markdown: string; title: string; metadata: PageMetadata } {
     const markdown = `# Sample Article from URL
 
 This is a demonstration of how URL-to-Markdown conversion works in the ReadLater application.
@@ -191,3 +126,5 @@ For more information, visit the [original URL](${url}).
     };
   }
 }
+
+export type { PageMetadata };